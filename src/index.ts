@@ -1,9 +1,29 @@
 export * from "./mcp/types.js";
 export * from "./mcp/policy.js";
+export * from "./mcp/policy-loader.js";
+export * from "./mcp/policy-profiles.js";
+export * from "./mcp/policy-explain.js";
+export * from "./mcp/tool-pattern.js";
+export * from "./mcp/conditions.js";
+export * from "./mcp/json-path.js";
+export * from "./mcp/json-schema.js";
+export * from "./mcp/args-schema.js";
 export * from "./mcp/redaction.js";
+export * from "./mcp/secret-detectors.js";
 export * from "./mcp/gate.js";
+export * from "./mcp/grants.js";
+export * from "./mcp/budgets.js";
+export * from "./mcp/batch.js";
+export * from "./mcp/escalation.js";
+export * from "./mcp/risk.js";
+export * from "./mcp/preview.js";
+export * from "./mcp/audit.js";
 export * from "./mcp/errors.js";
 export * from "./mcp/ask-user.js";
 export * from "./mcp/ask-user-bridge.js";
 export * from "./mcp/ask-user-autolaunch.js";
+export * from "./mcp/caller-context.js";
+export * from "./mcp/approval-bridge-adapter.js";
 export * from "./mcp/server.js";
+export * from "./mcp/proxy-config.js";
+export * from "./mcp/proxy.js";
@@ -0,0 +1,357 @@
+import type { AskUserToolInput } from "./ask-user.js";
+import {
+  defaultAskUserBridgePath,
+  enqueueAskUserPrompt,
+  removeAskUserPrompt,
+  waitForAskUserResponse,
+  type AskUserBridgeApprovalInfo,
+  type AskUserBridgePrompt,
+  type AskUserBridgeResponse
+} from "./ask-user-bridge.js";
+import { formatCallerContext } from "./caller-context.js";
+import { AskUserBridgeBusyError, AskUserPromptCancelledError } from "./errors.js";
+import type {
+  HandraiseAdapter,
+  McpApprovalBatchRequest,
+  McpApprovalDecision,
+  McpApprovalRequest,
+  McpCallerContext,
+  McpResultReviewDecision,
+  McpResultReviewRequest
+} from "./types.js";
+import { delay } from "./util.js";
+
+export const APPROVAL_APPROVE_OPTION = "Approve once";
+export const APPROVAL_APPROVE_ARGS_OPTION = "Approve identical calls this session";
+export const APPROVAL_APPROVE_ALWAYS_OPTION = "Always approve this tool";
+export const APPROVAL_DENY_OPTION = "Deny";
+export const BATCH_APPROVE_ALL_OPTION = "Approve all";
+export const BATCH_DENY_ALL_OPTION = "Deny all";
+export const RESULT_RELEASE_OPTION = "Release result";
+export const RESULT_REDACT_OPTION = "Release redacted result";
+export const RESULT_WITHHOLD_OPTION = "Withhold result";
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_TOOL_GRANT_MS = 15 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 350;
+
+export type AskUserBridgeApprovalAdapterOptions = {
+  statePath?: string;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  /** Length of the "approve this tool for N minutes" grant offered to the approver. */
+  toolGrantMs?: number;
+};
+
+/**
+ * A `HandraiseAdapter` that asks the human through the askUser bridge, so
+ * approvals show up in the same TUI/CLI responder as `handraise_ask_user`.
+ * A request that gets no answer before `timeoutMs` is denied, and an
+ * unanswered result review is withheld; either way its prompt is removed.
+ * Batches are asked as one prompt.
+ * An aborted request removes its prompt and rejects with
+ * `AskUserPromptCancelledError`.
+ */
+export function createAskUserBridgeApprovalAdapter(
+  opts: AskUserBridgeApprovalAdapterOptions = {}
+): HandraiseAdapter {
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+  const pollIntervalMs = opts.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const toolGrantMs = opts.toolGrantMs ?? DEFAULT_TOOL_GRANT_MS;
+
+  const ask = async (
+    prompt: AskUserBridgePrompt,
+    signal: AbortSignal | undefined
+  ): Promise<AskUserBridgeResponse | undefined> => {
+    const statePath = opts.statePath ?? defaultAskUserBridgePath();
+    const deadline = Date.now() + timeoutMs;
+    const enqueued = await enqueueWhenFree(statePath, prompt, deadline, pollIntervalMs, signal);
+    if (!enqueued) return undefined;
+
+    try {
+      return await waitForAskUserResponse(statePath, prompt.id, deadline - Date.now(), pollIntervalMs, signal);
+    } catch (error: unknown) {
+      if (error instanceof AskUserPromptCancelledError) throw error;
+      // The bridge holds one prompt at a time; an unanswered one must not block the next.
+      await removeAskUserPrompt(statePath, prompt.id);
+      return undefined;
+    }
+  };
+
+  return {
+    async requestApproval(req, signal) {
+      // Each quorum round is its own prompt so a second approver can answer it.
+      const round = req.quorum?.approvedBy.length ?? 0;
+      const promptId = round > 0 ? `${req.traceId}#${round + 1}` : req.traceId;
+      const response = await ask(
+        {
+          id: promptId,
+          createdAt: new Date(req.createdAtMs).toISOString(),
+          ...buildApprovalPrompt(req, toolGrantMs),
+          approval: toApprovalInfo(req),
+          ...(req.context !== undefined ? { context: req.context } : {})
+        },
+        signal
+      );
+      if (!response) return { decision: "deny", reason: `No approval response within ${timeoutMs}ms.` };
+      return toApprovalDecision(response, toolGrantMs);
+    },
+
+    async requestBatchApproval(batch, signal) {
+      const createdAtMs = Math.min(...batch.requests.map((req) => req.createdAtMs));
+      const context = sharedCallerContext(batch.requests);
+      const response = await ask(
+        {
+          id: batch.batchId,
+          createdAt: new Date(createdAtMs).toISOString(),
+          ...buildBatchApprovalPrompt(batch),
+          batch: batch.requests.map(toApprovalInfo),
+          ...(context !== undefined ? { context } : {})
+        },
+        signal
+      );
+      if (!response) {
+        return batch.requests.map(() => ({ decision: "deny", reason: `No approval response within ${timeoutMs}ms.` }));
+      }
+      return toBatchApprovalDecisions(response, batch);
+    },
+
+    async reviewResult(req, signal) {
+      const response = await ask(
+        {
+          id: `${req.traceId}#result`,
+          createdAt: new Date(req.createdAtMs).toISOString(),
+          ...buildResultReviewPrompt(req),
+          ...(req.context !== undefined ? { context: req.context } : {})
+        },
+        signal
+      );
+      if (!response) return { decision: "withhold", reason: `No result review within ${timeoutMs}ms.` };
+      return toResultReviewDecision(response);
+    }
+  };
+}
+
+export function buildBatchApprovalPrompt(batch: McpApprovalBatchRequest): AskUserToolInput {
+  const lines = [`${batch.requests.length} tool calls are waiting for approval.`];
+  batch.requests.forEach((req, index) => {
+    lines.push(
+      "",
+      `#${index + 1} ${req.summary}`,
+      ...requestedByLines(req.context),
+      `Risk: ${req.risk}${req.riskScore !== undefined ? ` (score ${req.riskScore})` : ""}`,
+      ...(req.riskReasons ?? []).map((reason) => `  - ${reason}`),
+      `Arguments: ${JSON.stringify(req.displayArgs)}`
+    );
+  });
+  lines.push("", "Pick calls to approve only those; the rest are denied.");
+  return {
+    header: `Approval required: ${batch.requests.length} tool calls`,
+    question: lines.join("\n"),
+    options: [
+      { label: BATCH_APPROVE_ALL_OPTION },
+      { label: BATCH_DENY_ALL_OPTION },
+      ...batch.requests.map((req, index) => ({ label: batchItemOptionLabel(req, index) }))
+    ],
+    multiple: true,
+    custom: true,
+    customLabel: "Reason for denied calls (optional)"
+  };
+}
+
+/**
+ * Maps a batch response to one decision per request. "Approve all" approves
+ * every call and per-call picks approve just those; everything else is
+ * denied, with the custom response as the reason. "Deny all" wins over any
+ * other pick.
+ */
+export function toBatchApprovalDecisions(
+  response: AskUserBridgeResponse,
+  batch: McpApprovalBatchRequest
+): McpApprovalDecision[] {
+  const approver = response.responder ? { approver: response.responder } : {};
+  const selected = new Set(response.action === "accept" ? (response.selectedOptions ?? []) : []);
+  const reason =
+    response.action !== "accept"
+      ? `Approver chose to ${response.action} the request.`
+      : response.customResponse?.trim() || undefined;
+  const deny: McpApprovalDecision = { decision: "deny", ...(reason ? { reason } : {}), ...approver };
+
+  if (selected.has(BATCH_DENY_ALL_OPTION)) return batch.requests.map(() => deny);
+  const approveAll = selected.has(BATCH_APPROVE_ALL_OPTION);
+  return batch.requests.map((req, index) =>
+    approveAll || selected.has(batchItemOptionLabel(req, index)) ? { decision: "approve", ...approver } : deny
+  );
+}
+
+export function buildResultReviewPrompt(req: McpResultReviewRequest): AskUserToolInput {
+  return {
+    header: `Result review: ${req.toolName}`,
+    question: ["The tool has run. Review its result before it is returned:", JSON.stringify(req.displayResult, null, 2)].join(
+      "\n"
+    ),
+    options: [{ label: RESULT_RELEASE_OPTION }, { label: RESULT_REDACT_OPTION }, { label: RESULT_WITHHOLD_OPTION }],
+    multiple: false,
+    custom: true,
+    customLabel: "Withhold reason, or JSON paths to redact (comma-separated)"
+  };
+}
+
+/**
+ * Maps a result review response. The custom text is read as comma-separated
+ * JSON paths for a redaction and as the reason for anything else. Anything
+ * but a single release or redact pick withholds the result.
+ */
+export function toResultReviewDecision(response: AskUserBridgeResponse): McpResultReviewDecision {
+  const approver = response.responder ? { approver: response.responder } : {};
+  const custom = response.customResponse?.trim();
+  const selected = response.selectedOptions ?? [];
+  const only = response.action === "accept" && selected.length === 1 ? selected[0] : undefined;
+
+  if (only === RESULT_RELEASE_OPTION) return { decision: "release", ...approver };
+  if (only === RESULT_REDACT_OPTION) {
+    const paths = (custom ?? "")
+      .split(",")
+      .map((path) => path.trim())
+      .filter((path) => path.length > 0);
+    return { decision: "redact", ...(paths.length > 0 ? { paths } : {}), ...approver };
+  }
+  if (response.action !== "accept") {
+    return { decision: "withhold", reason: `Reviewer chose to ${response.action} the review.`, ...approver };
+  }
+  return custom ? { decision: "withhold", reason: custom, ...approver } : { decision: "withhold", ...approver };
+}
+
+export function buildApprovalPrompt(
+  req: McpApprovalRequest,
+  toolGrantMs = DEFAULT_TOOL_GRANT_MS
+): AskUserToolInput {
+  const lines = [
+    req.summary,
+    ...requestedByLines(req.context),
+    `Risk: ${req.risk}${req.riskScore !== undefined ? ` (score ${req.riskScore})` : ""}`
+  ];
+  for (const reason of req.riskReasons ?? []) lines.push(`  - ${reason}`);
+  if (req.budgetExceeded) {
+    const budget = req.budgetExceeded;
+    lines.push(
+      budget.kind === "rateLimit"
+        ? `Rate limit reached: ${budget.maxCalls} calls per ${Math.round(budget.windowMs / 1000)}s`
+        : `Session budget reached: ${budget.maxCalls} calls`
+    );
+  }
+  if (req.quorum) {
+    const approvedBy = req.quorum.approvedBy.length > 0 ? ` (approved by ${req.quorum.approvedBy.join(", ")})` : "";
+    lines.push(`Approvals: ${req.quorum.approvedBy.length}/${req.quorum.required}${approvedBy}`);
+    if (req.quorum.groups?.length) lines.push(`Eligible groups: ${req.quorum.groups.join(", ")}`);
+  }
+  if (req.expiresAtMs !== undefined) lines.push(`Expires: ${new Date(req.expiresAtMs).toISOString()}`);
+  if (req.secretDetections?.length) {
+    lines.push(
+      `Secrets masked: ${req.secretDetections.map((found) => `${found.detector} in ${found.path}`).join(", ")}`
+    );
+  }
+  lines.push("Arguments:", JSON.stringify(req.displayArgs, null, 2));
+  return {
+    header: `Approval required: ${req.toolName}`,
+    question: lines.join("\n"),
+    options: [
+      { label: APPROVAL_APPROVE_OPTION },
+      { label: toolGrantOptionLabel(toolGrantMs) },
+      { label: APPROVAL_APPROVE_ARGS_OPTION },
+      { label: APPROVAL_APPROVE_ALWAYS_OPTION },
+      { label: APPROVAL_DENY_OPTION }
+    ],
+    multiple: false,
+    custom: true,
+    customLabel: "Reason (optional)"
+  };
+}
+
+/**
+ * Exactly one approve pick maps to an approval with the matching scope.
+ * Anything else is treated as a denial; a custom response becomes the reason.
+ * Args edited by the responder become `overrideArgs` of an approval.
+ * The bridge responder, when known, becomes the decision's `approver`.
+ */
+export function toApprovalDecision(
+  response: AskUserBridgeResponse,
+  toolGrantMs = DEFAULT_TOOL_GRANT_MS
+): McpApprovalDecision {
+  const approver = response.responder ? { approver: response.responder } : {};
+  if (response.action !== "accept") {
+    return { decision: "deny", reason: `Approver chose to ${response.action} the request.`, ...approver };
+  }
+
+  const selected = response.selectedOptions ?? [];
+  const only = selected.length === 1 ? selected[0] : undefined;
+  const approve = {
+    decision: "approve" as const,
+    ...(response.editedArgs !== undefined ? { overrideArgs: response.editedArgs } : {}),
+    ...approver
+  };
+  if (only === APPROVAL_APPROVE_OPTION) return approve;
+  if (only === toolGrantOptionLabel(toolGrantMs)) {
+    return { ...approve, scope: { kind: "tool", durationMs: toolGrantMs } };
+  }
+  if (only === APPROVAL_APPROVE_ARGS_OPTION) return { ...approve, scope: { kind: "toolArgs" } };
+  if (only === APPROVAL_APPROVE_ALWAYS_OPTION) return { ...approve, scope: { kind: "always" } };
+
+  const reason = response.customResponse?.trim();
+  return reason ? { decision: "deny", reason, ...approver } : { decision: "deny", ...approver };
+}
+
+function toApprovalInfo(req: McpApprovalRequest): AskUserBridgeApprovalInfo {
+  return {
+    toolName: req.toolName,
+    args: req.displayArgs,
+    risk: req.risk,
+    ...(req.riskScore !== undefined ? { riskScore: req.riskScore } : {}),
+    ...(req.preview !== undefined ? { preview: req.preview } : {}),
+    ...(req.previewError !== undefined ? { previewError: req.previewError } : {})
+  };
+}
+
+function requestedByLines(context: McpCallerContext | undefined): string[] {
+  const label = formatCallerContext(context);
+  const lines = label !== undefined ? [`Requested by: ${label}`] : [];
+  if (context?.parentTraceId !== undefined) lines.push(`Parent trace: ${context.parentTraceId}`);
+  return lines;
+}
+
+/** The context every request in a batch shares, if they share one. */
+function sharedCallerContext(requests: McpApprovalRequest[]): McpCallerContext | undefined {
+  const first = requests[0]?.context;
+  if (first === undefined) return undefined;
+  const key = JSON.stringify(first);
+  return requests.every((req) => JSON.stringify(req.context) === key) ? first : undefined;
+}
+
+function batchItemOptionLabel(req: McpApprovalRequest, index: number): string {
+  return `Approve #${index + 1}: ${req.toolName}`;
+}
+
+function toolGrantOptionLabel(toolGrantMs: number): string {
+  const minutes = Math.max(1, Math.round(toolGrantMs / 60000));
+  return `Approve this tool for ${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+async function enqueueWhenFree(
+  statePath: string,
+  prompt: Parameters<typeof enqueueAskUserPrompt>[1],
+  deadline: number,
+  pollIntervalMs: number,
+  signal: AbortSignal | undefined
+): Promise<boolean> {
+  while (true) {
+    if (signal?.aborted) throw new AskUserPromptCancelledError({ promptId: prompt.id });
+    try {
+      await enqueueAskUserPrompt(statePath, prompt);
+      return true;
+    } catch (error: unknown) {
+      if (!(error instanceof AskUserBridgeBusyError)) throw error;
+      if (Date.now() >= deadline) return false;
+      await delay(pollIntervalMs);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import type { ZodTypeAny } from "zod";
+
+import type { JsonSchema, JsonSchemaIssue } from "./json-schema.js";
+import { validateJsonSchema } from "./json-schema.js";
+
+/**
+ * A tool's input schema: a zod schema, or a JSON Schema object (the only form
+ * a policy file can hold).
+ */
+export type McpArgsSchema = JsonSchema | ZodTypeAny;
+
+/**
+ * Checks tool args against a schema. Returns the issues found, with paths in
+ * the same `$.a.b[0]` form for both schema kinds.
+ */
+export function validateToolArgs(schema: McpArgsSchema, args: unknown): JsonSchemaIssue[] {
+  if (!isZodSchema(schema)) return validateJsonSchema(schema, args);
+
+  const result = schema.safeParse(args);
+  if (result.success) return [];
+  return result.error.issues.map((issue) => ({
+    path: issue.path.reduce<string>(
+      (path, segment) => (typeof segment === "number" ? `${path}[${segment}]` : `${path}.${segment}`),
+      "$"
+    ),
+    message: issue.message
+  }));
+}
+
+function isZodSchema(schema: McpArgsSchema): schema is ZodTypeAny {
+  return typeof (schema as { safeParse?: unknown }).safeParse === "function";
+}
@@ -1,19 +1,44 @@
 import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { userInfo } from "node:os";
 import { dirname } from "node:path";
 
-import type { AskUserToolInput } from "./ask-user.js";
+import type { AskUserAnswer, AskUserToolInput } from "./ask-user.js";
+import { AskUserBridgeBusyError, AskUserPromptCancelledError } from "./errors.js";
+import type { McpApprovalPreview, McpApprover, McpCallerContext, McpRiskClass } from "./types.js";
+import { delay } from "./util.js";
 
 export type AskUserBridgePrompt = AskUserToolInput & {
   id: string;
   createdAt: string;
+  /** Set for tool approval prompts so responders can highlight them. */
+  approval?: AskUserBridgeApprovalInfo;
+  /** Set for batched approval prompts, one entry per call in option order. */
+  batch?: AskUserBridgeApprovalInfo[];
+  /** Who is asking; responders group and label prompts by it. */
+  context?: McpCallerContext;
+};
+
+export type AskUserBridgeApprovalInfo = {
+  toolName: string;
+  /** The display-safe args; responders offer them for editing. */
+  args?: unknown;
+  risk: McpRiskClass;
+  riskScore?: number;
+  preview?: McpApprovalPreview;
+  previewError?: string;
 };
 
 export type AskUserBridgeResponse = {
   promptId: string;
   action: "accept" | "decline" | "cancel";
-  answer?: string | string[];
+  /** Typed per the prompt's `answerType`; see `parseAskUserTypedAnswer`. */
+  answer?: AskUserAnswer;
   selectedOptions?: string[];
   customResponse?: string;
+  /** Replacement args for an approval prompt, edited by the responder. */
+  editedArgs?: unknown;
+  /** Who answered; approval adapters pass it on as the decision's `approver`. */
+  responder?: McpApprover;
   respondedAt: string;
 };
 
@@ -34,6 +59,27 @@ export function defaultAskUserBridgePath(): string {
   return "/tmp/handraise-ask-user-bridge.json";
 }
 
+/**
+ * Identifies the person answering prompts from `HANDRAISE_APPROVER_ID`
+ * (falling back to the OS user) and comma-separated `HANDRAISE_APPROVER_GROUPS`.
+ */
+export function resolveAskUserResponder(env: NodeJS.ProcessEnv = process.env): McpApprover | undefined {
+  let id = env.HANDRAISE_APPROVER_ID?.trim();
+  if (!id) {
+    try {
+      id = userInfo().username;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const groups = (env.HANDRAISE_APPROVER_GROUPS ?? "")
+    .split(",")
+    .map((group) => group.trim())
+    .filter((group) => group.length > 0);
+  return groups.length > 0 ? { id, groups } : { id };
+}
+
 export async function enqueueAskUserPrompt(
   filePath: string,
   prompt: AskUserBridgePrompt
@@ -41,7 +87,7 @@ export async function enqueueAskUserPrompt(
   await withStateLock(filePath, async (state) => {
     const pending = listPendingFromState(state);
     if (pending.length >= 1 && !pending.some((item) => item.id === prompt.id)) {
-      throw new Error("Only one pending askUser prompt is allowed at a time.");
+      throw new AskUserBridgeBusyError();
     }
 
     const exists = state.prompts.some((item) => item.id === prompt.id);
@@ -77,18 +123,40 @@ export async function submitAskUserResponse(
   });
 }
 
+/**
+ * Removes a prompt and any unread response, so responders stop showing it.
+ * Returns false when the prompt was not in the bridge state.
+ */
+export async function removeAskUserPrompt(filePath: string, promptId: string): Promise<boolean> {
+  return withStateLock(filePath, async (state) => {
+    const before = state.prompts.length;
+    state.prompts = state.prompts.filter((item) => item.id !== promptId);
+    state.responses = state.responses.filter((item) => item.promptId !== promptId);
+    return state.prompts.length < before;
+  });
+}
+
+/**
+ * Polls for the response to `promptId`. When `signal` aborts, the prompt is
+ * removed from the bridge and the wait rejects with `AskUserPromptCancelledError`.
+ */
 export async function waitForAskUserResponse(
   filePath: string,
   promptId: string,
   timeoutMs: number,
-  pollIntervalMs = DEFAULT_POLL_INTERVAL_MS
+  pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  signal?: AbortSignal
 ): Promise<AskUserBridgeResponse> {
   const deadline = Date.now() + Math.max(timeoutMs, pollIntervalMs);
 
   while (Date.now() <= deadline) {
+    if (signal?.aborted) {
+      await removeAskUserPrompt(filePath, promptId);
+      throw new AskUserPromptCancelledError({ promptId });
+    }
     const response = await takeAskUserResponse(filePath, promptId);
     if (response) return response;
-    await delay(pollIntervalMs);
+    await delay(pollIntervalMs, signal);
   }
 
   throw new Error(`Timed out waiting for CLI response for prompt '${promptId}'.`);
@@ -173,7 +241,3 @@ async function writeBridgeState(filePath: string, state: AskUserBridgeState): Pr
 function isNodeError(error: unknown, code: string): boolean {
   return typeof error === "object" && error !== null && (error as { code?: string }).code === code;
 }
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
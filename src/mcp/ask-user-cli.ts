@@ -1,25 +1,44 @@
 import process from "node:process";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { readdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import path from "node:path";
 import { setTimeout as sleep } from "node:timers/promises";
 import { createInterface } from "node:readline/promises";
 import readline from "node:readline";
 import boxen from "boxen";
 
-import { normalizeOptionLabels, sanitizePromptText } from "./ask-user.js";
+import {
+  checkAskUserSelectionCount,
+  describeAskUserAnswerConstraints,
+  hasAskUserAnswerConstraints,
+  normalizeOptionLabels,
+  parseAskUserTypedAnswer,
+  sanitizePromptText,
+  type AskUserAnswerValue
+} from "./ask-user.js";
+import { formatCallerContext } from "./caller-context.js";
+import { createUnifiedDiff, formatApprovalPreview } from "./preview.js";
+import { maxRiskClass } from "./risk.js";
+import type { McpRiskClass } from "./types.js";
 import {
   defaultAskUserBridgePath,
   listPendingAskUserPrompts,
+  resolveAskUserResponder,
   submitAskUserResponse,
+  type AskUserBridgeApprovalInfo,
   type AskUserBridgePrompt,
   type AskUserBridgeResponse
 } from "./ask-user-bridge.js";
+import { errorMessage } from "./util.js";
 
 const POLL_INTERVAL_MS = 600;
 const TUI_REFRESH_MS = 180;
 const WAITING_FOOTER = "Waiting for pending requests or reviews...";
 const FILE_MATCH_LIMIT = 6;
 const FILE_SCAN_LIMIT = 4000;
+const PREVIEW_LINE_LIMIT = 40;
 const SKIP_FILE_DIRS = new Set([".git", "node_modules", "dist"]);
 
 const COLOR = {
@@ -38,6 +57,8 @@ type PromptDraft = {
   activeRow: number;
   customResponse: string;
   activeFileMatch: number;
+  /** Approval prompts only: args edited in the external editor. */
+  editedArgs?: unknown;
 };
 
 type KeypressEvent = {
@@ -50,6 +71,7 @@ type TuiMode = "list" | "answer";
 type AnswerRow =
   | { kind: "option"; label: string; optionIndex: number }
   | { kind: "custom"; label: string }
+  | { kind: "editArgs"; label: string }
   | { kind: "submit"; label: string }
   | { kind: "decline"; label: string }
   | { kind: "cancel"; label: string };
@@ -100,7 +122,7 @@ export async function runAskUserCli(argv: string[] = process.argv.slice(2)): Pro
   try {
     while (running) {
       if (!busy) {
-        pending = await listPendingAskUserPrompts(statePath);
+        pending = groupByCaller(await listPendingAskUserPrompts(statePath));
         pruneDrafts(drafts, pending);
 
         if (pending.length === 0) {
@@ -244,9 +266,13 @@ export async function runAskUserCli(argv: string[] = process.argv.slice(2)): Pro
             }
 
             if (isFreeformPrompt(active)) {
-              busy = true;
               const response = buildAcceptedResponse(active, draft);
-              const stored = await submitAskUserResponse(statePath, response);
+              if ("error" in response) {
+                footer = response.error;
+                continue;
+              }
+              busy = true;
+              const stored = await submitAskUserResponse(statePath, withResponder(response));
               busy = false;
 
               if (stored) {
@@ -267,11 +293,30 @@ export async function runAskUserCli(argv: string[] = process.argv.slice(2)): Pro
             continue;
           }
 
-          busy = true;
+          if (row.kind === "editArgs") {
+            const edit = editJsonInExternalEditor(draft.editedArgs ?? active.approval?.args);
+            lastFrame = "";
+            if (edit.kind === "error") {
+              footer = `Arguments not changed: ${edit.message}`;
+            } else if (isSameJson(edit.value, active.approval?.args)) {
+              delete draft.editedArgs;
+              footer = "Arguments match the original; no edits will be sent.";
+            } else {
+              draft.editedArgs = edit.value;
+              footer = "Review the argument diff, then pick an approve option and submit.";
+            }
+            continue;
+          }
+
           let response: AskUserBridgeResponse;
 
           if (row.kind === "submit") {
-            response = buildAcceptedResponse(active, draft);
+            const accepted = buildAcceptedResponse(active, draft);
+            if ("error" in accepted) {
+              footer = accepted.error;
+              continue;
+            }
+            response = accepted;
           } else {
             response = {
               promptId: active.id,
@@ -280,7 +325,8 @@ export async function runAskUserCli(argv: string[] = process.argv.slice(2)): Pro
             };
           }
 
-          const stored = await submitAskUserResponse(statePath, response);
+          busy = true;
+          const stored = await submitAskUserResponse(statePath, withResponder(response));
           busy = false;
 
           if (stored) {
@@ -343,17 +389,28 @@ function renderTui(
   }
 
   frame += `${COLOR.bold}Pending requests or reviews: ${pending.length}${COLOR.reset}\n`;
+  const labelled = pending.some((prompt) => prompt.context !== undefined);
   for (let i = 0; i < Math.min(pending.length, 10); i += 1) {
     const prompt = pending[i]!;
+    const caller = callerLabel(prompt);
+    if (labelled && (i === 0 || callerLabel(pending[i - 1]!) !== caller)) {
+      const count = pending.filter((other) => callerLabel(other) === caller).length;
+      frame += `${COLOR.cyan}${caller}${COLOR.reset} ${COLOR.gray}(${count})${COLOR.reset}\n`;
+    }
     const title = sanitizePromptText(prompt.header) ?? prompt.question;
     const prefix = i === selectedIndex ? `${COLOR.yellow}>${COLOR.reset}` : " ";
-    frame += `${prefix} ${i + 1}. ${title}\n`;
+    frame += `${prefix} ${i + 1}. ${renderRiskBadge(prompt)}${title}\n`;
   }
 
   frame += "\n----------------------------------------\n";
   frame += `${COLOR.gray}Prompt id:${COLOR.reset} ${active.id}\n`;
+  const askedBy = askedByLabel(active);
+  if (askedBy) frame += `${COLOR.gray}Asked by:${COLOR.reset} ${askedBy}\n`;
   if (active.header) frame += `${COLOR.bold}${active.header}${COLOR.reset}\n`;
   frame += `${active.question}\n`;
+  const expected = expectedAnswerLabel(active);
+  if (expected) frame += `${COLOR.gray}Expected:${COLOR.reset} ${expected}\n`;
+  frame += renderApprovalPreview(active);
 
   if (mode === "list") {
     frame += `\n${COLOR.green}Press Enter to open response for selected request.${COLOR.reset}\n`;
@@ -386,14 +443,146 @@ function renderTui(
       continue;
     }
 
-    const color = row.kind === "submit" ? COLOR.green : row.kind === "decline" ? COLOR.red : COLOR.yellow;
+    const color =
+      row.kind === "submit"
+        ? COLOR.green
+        : row.kind === "decline"
+          ? COLOR.red
+          : row.kind === "editArgs"
+            ? COLOR.cyan
+            : COLOR.yellow;
     frame += `${cursor} ${color}${row.label}${COLOR.reset}\n`;
   }
+  if (draft.editedArgs !== undefined) {
+    frame += `\n${COLOR.bold}Edited arguments${COLOR.reset}\n`;
+    frame += `${formatArgsDiff(active.approval?.args, draft.editedArgs).map(colorDiffLine).join("\n")}\n`;
+  }
   frame += `\n${COLOR.magenta}${footer}${COLOR.reset}\n`;
   frame += `\n${renderHintsBox(mode)}\n`;
   return writeFrame(frame, previousFrame);
 }
 
+/**
+ * Orders prompts so each caller's prompts sit together, callers in order of
+ * their oldest prompt.
+ */
+function groupByCaller(pending: AskUserBridgePrompt[]): AskUserBridgePrompt[] {
+  const groups = new Map<string, AskUserBridgePrompt[]>();
+  for (const prompt of pending) {
+    const caller = callerLabel(prompt);
+    const group = groups.get(caller);
+    if (group) group.push(prompt);
+    else groups.set(caller, [prompt]);
+  }
+  return [...groups.values()].flat();
+}
+
+function callerLabel(prompt: AskUserBridgePrompt): string {
+  return formatCallerContext(prompt.context) ?? "Unknown caller";
+}
+
+/** Approval prompts name their caller in the question already. */
+function askedByLabel(prompt: AskUserBridgePrompt): string | undefined {
+  return prompt.approval || prompt.batch ? undefined : formatCallerContext(prompt.context);
+}
+
+function renderRiskBadge(prompt: AskUserBridgePrompt): string {
+  if (prompt.batch && prompt.batch.length > 0) {
+    // A batch is shown at the risk of its riskiest call.
+    const risk = prompt.batch.map((item) => item.risk).reduce(maxRiskClass);
+    return `${riskColor(risk)}[BATCH ${prompt.batch.length} ${risk.toUpperCase()}]${COLOR.reset} `;
+  }
+  if (!prompt.approval) return "";
+  const { risk, riskScore } = prompt.approval;
+  const score = riskScore !== undefined ? ` ${riskScore}` : "";
+  return `${riskColor(risk)}[${risk.toUpperCase()}${score}]${COLOR.reset} `;
+}
+
+function riskColor(risk: McpRiskClass): string {
+  return risk === "high" ? COLOR.red : risk === "medium" ? COLOR.yellow : COLOR.green;
+}
+
+function renderApprovalPreview(prompt: AskUserBridgePrompt): string {
+  if (prompt.batch) {
+    return prompt.batch
+      .map((item, index) => renderPreviewOf(item, `Preview #${index + 1} ${item.toolName}`))
+      .join("");
+  }
+  return prompt.approval ? renderPreviewOf(prompt.approval, "Preview") : "";
+}
+
+function renderPreviewOf(approval: AskUserBridgeApprovalInfo, title: string): string {
+  if (approval.previewError !== undefined) {
+    return `\n${COLOR.yellow}${title} unavailable:${COLOR.reset} ${approval.previewError}\n`;
+  }
+  if (!approval.preview) return "";
+
+  const lines = formatApprovalPreview(approval.preview);
+  const shown = lines
+    .slice(0, PREVIEW_LINE_LIMIT)
+    .map((line) => (approval.preview?.kind === "diff" ? colorDiffLine(line) : line));
+  if (lines.length > shown.length) {
+    shown.push(`${COLOR.gray}... ${lines.length - shown.length} more line(s)${COLOR.reset}`);
+  }
+  return `\n${COLOR.bold}${title}${COLOR.reset}\n${shown.join("\n")}\n`;
+}
+
+function colorDiffLine(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return `${COLOR.bold}${line}${COLOR.reset}`;
+  if (line.startsWith("+")) return `${COLOR.green}${line}${COLOR.reset}`;
+  if (line.startsWith("-")) return `${COLOR.red}${line}${COLOR.reset}`;
+  if (line.startsWith("@@")) return `${COLOR.cyan}${line}${COLOR.reset}`;
+  return line;
+}
+
+function formatArgsDiff(original: unknown, edited: unknown): string[] {
+  return createUnifiedDiff(formatArgsJson(original), formatArgsJson(edited), { path: "args.json" })
+    .replace(/\n$/, "")
+    .split("\n");
+}
+
+function formatArgsJson(args: unknown): string {
+  return `${JSON.stringify(args ?? {}, null, 2)}\n`;
+}
+
+function isSameJson(a: unknown, b: unknown): boolean {
+  return formatArgsJson(a) === formatArgsJson(b);
+}
+
+/**
+ * Opens the args as JSON in `$VISUAL`/`$EDITOR` (default `vi`) and parses the
+ * result. Raw mode is suspended while the editor owns the terminal. The args
+ * are the display copy: the gate maps the placeholders it issued for redacted
+ * and truncated values back to the real ones, and refuses cut-off copies.
+ */
+function editJsonInExternalEditor(
+  initial: unknown
+): { kind: "edited"; value: unknown } | { kind: "error"; message: string } {
+  const dir = mkdtempSync(path.join(tmpdir(), "handraise-args-"));
+  const file = path.join(dir, "args.json");
+  const editor = process.env.VISUAL?.trim() || process.env.EDITOR?.trim() || "vi";
+
+  try {
+    writeFileSync(file, formatArgsJson(initial), "utf8");
+    process.stdin.setRawMode(false);
+    process.stdin.pause();
+    process.stdout.write("\x1b[?25h\x1b[H\x1b[J");
+    const result = spawnSync(`${editor} ${JSON.stringify(file)}`, { stdio: "inherit", shell: true });
+    if (result.error) return { kind: "error", message: result.error.message };
+    if (result.status !== 0) return { kind: "error", message: `${editor} exited with status ${result.status}` };
+
+    try {
+      return { kind: "edited", value: JSON.parse(readFileSync(file, "utf8")) };
+    } catch (error: unknown) {
+      return { kind: "error", message: `invalid JSON (${errorMessage(error)})` };
+    }
+  } finally {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
 function writeFrame(frame: string, previousFrame: string): string {
   if (frame === previousFrame) return previousFrame;
   process.stdout.write(`\x1b[?25l\x1b[H\x1b[J${frame}`);
@@ -416,6 +605,9 @@ function getAnswerRows(prompt: AskUserBridgePrompt): AnswerRow[] {
   if (customAllowed) {
     rows.push({ kind: "custom", label: sanitizePromptText(prompt.customLabel) ?? "Custom response" });
   }
+  if (prompt.approval?.args !== undefined) {
+    rows.push({ kind: "editArgs", label: "Edit arguments (opens $EDITOR)" });
+  }
 
   rows.push({ kind: "submit", label: "Submit answer" });
   rows.push({ kind: "decline", label: "Decline prompt" });
@@ -443,7 +635,11 @@ function pruneDrafts(drafts: Map<string, PromptDraft>, pending: AskUserBridgePro
   }
 }
 
-function buildAcceptedResponse(prompt: AskUserBridgePrompt, draft: PromptDraft): AskUserBridgeResponse {
+/** The response to submit, or why the draft breaks the prompt's answer constraints. */
+function buildAcceptedResponse(
+  prompt: AskUserBridgePrompt,
+  draft: PromptDraft
+): AskUserBridgeResponse | { error: string } {
   const options = normalizeOptionLabels(prompt.options, prompt.readyAnswers);
   const customResponse = sanitizePromptText(draft.customResponse);
   const selectedOptions = [...draft.markedOptionIndexes]
@@ -452,29 +648,37 @@ function buildAcceptedResponse(prompt: AskUserBridgePrompt, draft: PromptDraft):
     .filter((value): value is string => value !== undefined);
 
   if (options.length === 0) {
+    const answer = typedAnswer(prompt, customResponse ?? "");
+    if (typeof answer === "object") return answer;
     return {
       promptId: prompt.id,
       action: "accept",
-      answer: customResponse ?? "",
+      answer,
       respondedAt: new Date().toISOString()
     };
   }
 
+  const customAnswer = customResponse !== undefined ? typedAnswer(prompt, customResponse) : undefined;
+  if (typeof customAnswer === "object") return customAnswer;
   const multiple = prompt.multiple ?? false;
+  const editedArgs = draft.editedArgs !== undefined ? { editedArgs: draft.editedArgs } : {};
 
   if (multiple) {
-    const answer = customResponse ? [...selectedOptions, customResponse] : selectedOptions;
+    const answer = customAnswer !== undefined ? [...selectedOptions, customAnswer] : selectedOptions;
+    const countError = checkAskUserSelectionCount(answer.length, prompt);
+    if (countError) return { error: countError };
     return {
       promptId: prompt.id,
       action: "accept",
       answer,
       selectedOptions,
       ...(customResponse !== undefined ? { customResponse } : {}),
+      ...editedArgs,
       respondedAt: new Date().toISOString()
     };
   }
 
-  const answer = selectedOptions.length > 0 ? selectedOptions[0]! : customResponse ?? "";
+  const answer = selectedOptions.length > 0 ? selectedOptions[0]! : customAnswer ?? "";
 
   return {
     promptId: prompt.id,
@@ -482,10 +686,28 @@ function buildAcceptedResponse(prompt: AskUserBridgePrompt, draft: PromptDraft):
     answer,
     selectedOptions,
     ...(customResponse !== undefined ? { customResponse } : {}),
+    ...editedArgs,
     respondedAt: new Date().toISOString()
   };
 }
 
+/** `text` parsed per the prompt's answer constraints, or the reason it does not fit them. */
+function typedAnswer(prompt: AskUserBridgePrompt, text: string): AskUserAnswerValue | { error: string } {
+  if (!hasAskUserAnswerConstraints(prompt)) return text;
+  const parsed = parseAskUserTypedAnswer(text, prompt);
+  return "error" in parsed ? parsed : parsed.value;
+}
+
+function expectedAnswerLabel(prompt: AskUserBridgePrompt): string | undefined {
+  const multiple = (prompt.multiple ?? false) && normalizeOptionLabels(prompt.options, prompt.readyAnswers).length > 0;
+  return describeAskUserAnswerConstraints(prompt, multiple);
+}
+
+function withResponder(response: AskUserBridgeResponse): AskUserBridgeResponse {
+  const responder = resolveAskUserResponder();
+  return responder ? { ...response, responder } : response;
+}
+
 function renderHintsBox(mode: TuiMode): string {
   const lines =
     mode === "list"
@@ -700,8 +922,23 @@ async function collectPromptResponseLegacy(
 ): Promise<AskUserBridgeResponse> {
   console.log("\n----------------------------------------");
   console.log(`Prompt id: ${prompt.id}`);
+  const askedBy = askedByLabel(prompt);
+  if (askedBy) console.log(`Asked by: ${askedBy}`);
   if (prompt.header) console.log(prompt.header);
   console.log(prompt.question);
+  const previews = prompt.batch
+    ? prompt.batch.map((item, index) => ({ item, title: `Preview #${index + 1} ${item.toolName}` }))
+    : prompt.approval
+      ? [{ item: prompt.approval, title: "Preview" }]
+      : [];
+  for (const { item, title } of previews) {
+    if (item.previewError !== undefined) {
+      console.log(`${title} unavailable: ${item.previewError}`);
+    } else if (item.preview) {
+      console.log(`${title}:`);
+      for (const line of formatApprovalPreview(item.preview)) console.log(line);
+    }
+  }
 
   const optionLabels = normalizeOptionLabels(prompt.options, prompt.readyAnswers);
   if (optionLabels.length > 0) {
@@ -709,47 +946,88 @@ async function collectPromptResponseLegacy(
       console.log(`  ${index + 1}. ${label}`);
     });
   }
+  const expected = expectedAnswerLabel(prompt);
+  if (expected) console.log(`Expected: ${expected}`);
 
   if (optionLabels.length === 0) {
-    const raw = (await rl.question("Response (or /decline, /cancel): ")).trim();
-    const action = parseActionShortcut(raw);
-    if (action !== undefined) {
+    while (true) {
+      const raw = (await rl.question("Response (or /decline, /cancel): ")).trim();
+      const action = parseActionShortcut(raw);
+      if (action !== undefined) {
+        return {
+          promptId: prompt.id,
+          action,
+          respondedAt: new Date().toISOString()
+        };
+      }
+
+      const answer = typedAnswer(prompt, raw);
+      if (typeof answer === "object") {
+        console.log(answer.error);
+        continue;
+      }
       return {
         promptId: prompt.id,
-        action,
+        action: "accept",
+        answer,
         respondedAt: new Date().toISOString()
       };
     }
-
-    return {
-      promptId: prompt.id,
-      action: "accept",
-      answer: raw,
-      respondedAt: new Date().toISOString()
-    };
   }
 
-  const selectionRaw = (await rl.question("Selections (comma numbers, blank for none): ")).trim();
-  const selectionAction = parseActionShortcut(selectionRaw);
-  if (selectionAction !== undefined) {
-    return {
-      promptId: prompt.id,
-      action: selectionAction,
-      respondedAt: new Date().toISOString()
-    };
-  }
+  let selectedOptions: string[];
+  while (true) {
+    const selectionRaw = (await rl.question("Selections (comma numbers, blank for none): ")).trim();
+    const selectionAction = parseActionShortcut(selectionRaw);
+    if (selectionAction !== undefined) {
+      return {
+        promptId: prompt.id,
+        action: selectionAction,
+        respondedAt: new Date().toISOString()
+      };
+    }
 
-  const selectedOptions = parseOptionSelection(selectionRaw, optionLabels);
+    selectedOptions = parseOptionSelection(selectionRaw, optionLabels);
+    const countError = prompt.multiple ? checkAskUserSelectionCount(selectedOptions.length, prompt) : undefined;
+    if (!countError) break;
+    console.log(countError);
+  }
+  const editedArgs =
+    prompt.approval?.args !== undefined ? await collectEditedArgsLegacy(rl, prompt.approval.args) : undefined;
 
   return {
     promptId: prompt.id,
     action: "accept",
     answer: selectedOptions,
     selectedOptions,
+    ...(editedArgs !== undefined ? { editedArgs } : {}),
     respondedAt: new Date().toISOString()
   };
 }
 
+async function collectEditedArgsLegacy(
+  rl: ReturnType<typeof createInterface>,
+  original: unknown
+): Promise<unknown> {
+  while (true) {
+    const raw = (await rl.question("Edited arguments as one-line JSON (blank to keep): ")).trim();
+    if (raw.length === 0) return undefined;
+
+    let edited: unknown;
+    try {
+      edited = JSON.parse(raw);
+    } catch (error: unknown) {
+      console.log(`Invalid JSON: ${errorMessage(error)}`);
+      continue;
+    }
+    if (isSameJson(edited, original)) return undefined;
+
+    for (const line of formatArgsDiff(original, edited)) console.log(line);
+    const confirm = (await rl.question("Send these arguments? [y/N] ")).trim().toLowerCase();
+    if (confirm === "y" || confirm === "yes") return edited;
+  }
+}
+
 function parseActionShortcut(value: string): "decline" | "cancel" | undefined {
   if (value === "/decline") return "decline";
   if (value === "/cancel") return "cancel";
@@ -1,5 +1,8 @@
 import type { ElicitRequestFormParams } from "@modelcontextprotocol/sdk/types.js";
 
+import { AskUserAnswerInvalidError } from "./errors.js";
+import { validateJsonSchema, type JsonSchema } from "./json-schema.js";
+
 export const ASK_USER_OPTION_LIMIT = 25;
 
 export type AskUserOption = {
@@ -7,7 +10,31 @@ export type AskUserOption = {
   description?: string | undefined;
 };
 
-export type AskUserToolInput = {
+export type AskUserAnswerType = "string" | "number" | "integer" | "boolean";
+
+export type AskUserAnswerFormat = "email" | "uri" | "date" | "date-time";
+
+/**
+ * What a typed-in answer must look like. It applies to the response of a
+ * prompt without options and to the custom response of one with options.
+ */
+export type AskUserAnswerConstraints = {
+  /** Defaults to `string`. */
+  answerType?: AskUserAnswerType;
+  /** The smallest number, or the fewest characters for a string. */
+  min?: number;
+  /** The largest number, or the most characters for a string. */
+  max?: number;
+  /** Strings only: a regex the whole answer must match. */
+  pattern?: string;
+  /** Strings only. */
+  format?: AskUserAnswerFormat;
+  /** Multi-select prompts: how many picks, custom response included, are allowed. */
+  minItems?: number;
+  maxItems?: number;
+};
+
+export type AskUserToolInput = AskUserAnswerConstraints & {
   header?: string;
   question: string;
   options?: AskUserOption[];
@@ -17,15 +44,23 @@ export type AskUserToolInput = {
   customLabel?: string;
 };
 
+export type AskUserAnswerValue = string | number | boolean;
+
+/** A single answer, or every pick of a multi-select prompt. */
+export type AskUserAnswer = AskUserAnswerValue | AskUserAnswerValue[];
+
 export type AskUserAcceptedAnswer = {
-  answer: string | string[];
+  answer: AskUserAnswer;
   selectedOptions: string[];
+  /** The custom response as typed. */
   customResponse?: string;
 };
 
+const ANSWER_CONSTRAINT_KEYS = ["answerType", "min", "max", "pattern", "format", "minItems", "maxItems"] as const;
+
 type AskUserSchemaProperty = ElicitRequestFormParams["requestedSchema"]["properties"][string];
 
-export function buildAskUserFormRequest(input: AskUserToolInput): {
+export function buildAskUserFormRequest(input: AskUserToolInput): AskUserAnswerConstraints & {
   message: string;
   requestedSchema: ElicitRequestFormParams["requestedSchema"];
   optionLabels: string[];
@@ -37,6 +72,7 @@ export function buildAskUserFormRequest(input: AskUserToolInput): {
   const optionLabels = normalizeOptionLabels(input.options, input.readyAnswers);
   const multiple = input.multiple ?? false;
   const custom = input.custom ?? true;
+  const constraints = pickAskUserAnswerConstraints(input);
 
   const messageLines = [header, question].filter((line): line is string => line !== undefined);
   if (optionLabels.length > 0) {
@@ -45,15 +81,14 @@ export function buildAskUserFormRequest(input: AskUserToolInput): {
       messageLines.push(`- ${option}`);
     }
   }
+  const expected = describeAskUserAnswerConstraints(constraints, optionLabels.length > 0 && multiple);
+  if (expected) messageLines.push(`Expected: ${expected}`);
 
   const properties: Record<string, AskUserSchemaProperty> = {};
   const required: string[] = [];
 
   if (optionLabels.length === 0) {
-    properties.response = {
-      type: "string",
-      title: "Response"
-    };
+    properties.response = answerSchemaProperty(constraints, "Response");
     required.push("response");
   } else if (multiple) {
     properties.selection = {
@@ -63,7 +98,8 @@ export function buildAskUserFormRequest(input: AskUserToolInput): {
         type: "string",
         enum: optionLabels
       },
-      minItems: custom ? 0 : 1
+      minItems: custom ? 0 : (constraints.minItems ?? 1),
+      ...(constraints.maxItems !== undefined ? { maxItems: constraints.maxItems } : {})
     };
     if (!custom) required.push("selection");
   } else {
@@ -76,10 +112,10 @@ export function buildAskUserFormRequest(input: AskUserToolInput): {
   }
 
   if (optionLabels.length > 0 && custom) {
-    properties.customResponse = {
-      type: "string",
-      title: sanitizePromptText(input.customLabel) ?? "Custom response"
-    };
+    properties.customResponse = answerSchemaProperty(
+      constraints,
+      sanitizePromptText(input.customLabel) ?? "Custom response"
+    );
   }
 
   return {
@@ -91,18 +127,29 @@ export function buildAskUserFormRequest(input: AskUserToolInput): {
     },
     optionLabels,
     multiple,
-    custom
+    custom,
+    ...constraints
   };
 }
 
+/**
+ * Reads the accepted form content. Typed answers are parsed and checked
+ * against `config`'s constraints; an answer that breaks them throws
+ * `AskUserAnswerInvalidError`.
+ */
 export function parseAskUserAcceptedAnswer(
   content: Record<string, string | number | boolean | string[]>,
-  config: { optionLabels: string[]; multiple: boolean; custom: boolean }
+  config: AskUserAnswerConstraints & { optionLabels: string[]; multiple: boolean; custom: boolean }
 ): AskUserAcceptedAnswer {
   const optionSet = new Set(config.optionLabels);
+  const typed = hasAskUserAnswerConstraints(config);
 
   if (config.optionLabels.length === 0) {
     const responseValue = content.response;
+    if (typed) {
+      const raw = responseValue === undefined || Array.isArray(responseValue) ? "" : responseValue;
+      return { answer: parseOrThrow(raw, config), selectedOptions: [] };
+    }
     const text = typeof responseValue === "string" ? responseValue.trim() : "";
     return {
       answer: text,
@@ -111,13 +158,20 @@ export function parseAskUserAcceptedAnswer(
   }
 
   const selectedOptions = normalizeSelections(content.selection, optionSet, config.multiple);
+  const customValue = config.custom ? content.customResponse : undefined;
   const customResponse =
-    config.custom && typeof content.customResponse === "string"
-      ? content.customResponse.trim() || undefined
-      : undefined;
+    typeof customValue === "string"
+      ? customValue.trim() || undefined
+      : typeof customValue === "number" || typeof customValue === "boolean"
+        ? String(customValue)
+        : undefined;
+  let customAnswer: AskUserAnswerValue | undefined = customResponse;
+  if (customResponse !== undefined && typed) customAnswer = parseOrThrow(customValue as AskUserAnswerValue, config);
 
   if (config.multiple) {
-    const combined = customResponse ? [...selectedOptions, customResponse] : selectedOptions;
+    const combined = customAnswer !== undefined ? [...selectedOptions, customAnswer] : selectedOptions;
+    const countError = checkAskUserSelectionCount(combined.length, config);
+    if (countError) throw new AskUserAnswerInvalidError(countError);
     return {
       answer: combined,
       selectedOptions,
@@ -134,12 +188,90 @@ export function parseAskUserAcceptedAnswer(
   }
 
   return {
-    answer: customResponse ?? "",
+    answer: customAnswer ?? "",
     selectedOptions,
     ...(customResponse !== undefined ? { customResponse } : {})
   };
 }
 
+/** The constraint fields of `input` that are set. */
+export function pickAskUserAnswerConstraints(input: {
+  [K in keyof AskUserAnswerConstraints]?: AskUserAnswerConstraints[K] | undefined;
+}): AskUserAnswerConstraints {
+  const picked: Record<string, unknown> = {};
+  for (const key of ANSWER_CONSTRAINT_KEYS) {
+    if (input[key] !== undefined) picked[key] = input[key];
+  }
+  return picked as AskUserAnswerConstraints;
+}
+
+export function hasAskUserAnswerConstraints(input: AskUserAnswerConstraints): boolean {
+  return ANSWER_CONSTRAINT_KEYS.some((key) => key !== "minItems" && key !== "maxItems" && input[key] !== undefined);
+}
+
+/**
+ * Parses a typed-in answer into the constrained type and checks it. Values
+ * that already have a type, as from an elicitation form, are checked as they
+ * are. Returns the value, or a message for the person answering.
+ */
+export function parseAskUserTypedAnswer(
+  raw: AskUserAnswerValue,
+  constraints: AskUserAnswerConstraints
+): { value: AskUserAnswerValue } | { error: string } {
+  const type = constraints.answerType ?? "string";
+  let value: AskUserAnswerValue = typeof raw === "string" ? raw.trim() : raw;
+
+  if ((type === "number" || type === "integer") && typeof value === "string") {
+    const parsed = value.length > 0 ? Number(value) : Number.NaN;
+    if (!Number.isFinite(parsed)) return { error: `Enter ${type === "integer" ? "a whole number" : "a number"}.` };
+    value = parsed;
+  }
+  if (type === "boolean" && typeof value === "string") {
+    const parsed = parseYesNo(value);
+    if (parsed === undefined) return { error: "Answer yes or no." };
+    value = parsed;
+  }
+
+  const issues = validateJsonSchema(answerJsonSchema(constraints), value);
+  if (issues.length > 0) return { error: `The answer ${issues.map((issue) => issue.message).join(" and ")}.` };
+  return { value };
+}
+
+/** Returns a message when `count` picks break `minItems`/`maxItems`. */
+export function checkAskUserSelectionCount(count: number, constraints: AskUserAnswerConstraints): string | undefined {
+  if (constraints.minItems !== undefined && count < constraints.minItems) {
+    return `Pick at least ${constraints.minItems} option${constraints.minItems === 1 ? "" : "s"}.`;
+  }
+  if (constraints.maxItems !== undefined && count > constraints.maxItems) {
+    return `Pick at most ${constraints.maxItems} option${constraints.maxItems === 1 ? "" : "s"}.`;
+  }
+  return undefined;
+}
+
+/** A short hint such as `a whole number from 1 to 65535`; `undefined` when nothing is constrained. */
+export function describeAskUserAnswerConstraints(
+  constraints: AskUserAnswerConstraints,
+  multiple = false
+): string | undefined {
+  const parts: string[] = [];
+  if (hasAskUserAnswerConstraints(constraints)) {
+    const type = constraints.answerType ?? "string";
+    if (type === "boolean") {
+      parts.push("yes or no");
+    } else if (type === "number" || type === "integer") {
+      parts.push(`${type === "integer" ? "a whole number" : "a number"}${describeRange(constraints, "")}`);
+    } else {
+      const noun = constraints.format !== undefined ? FORMAT_NOUNS[constraints.format] : "text";
+      const pattern = constraints.pattern !== undefined ? ` matching /${constraints.pattern}/` : "";
+      parts.push(`${noun}${describeRange(constraints, " characters")}${pattern}`);
+    }
+  }
+  if (multiple && (constraints.minItems !== undefined || constraints.maxItems !== undefined)) {
+    parts.push(`pick${describeRange({ min: constraints.minItems, max: constraints.maxItems }, " options")}`);
+  }
+  return parts.length > 0 ? parts.join("; ") : undefined;
+}
+
 export function sanitizePromptText(value: string | undefined): string | undefined {
   if (typeof value !== "string") return undefined;
   const trimmed = value.trim();
@@ -166,6 +298,73 @@ export function normalizeOptionLabels(
   return normalized;
 }
 
+const FORMAT_NOUNS: Record<AskUserAnswerFormat, string> = {
+  email: "an email address",
+  uri: "a URL",
+  date: "a date (YYYY-MM-DD)",
+  "date-time": "a date and time (ISO 8601)"
+};
+
+function describeRange(range: { min?: number | undefined; max?: number | undefined }, unit: string): string {
+  if (range.min !== undefined && range.max !== undefined) return ` from ${range.min} to ${range.max}${unit}`;
+  if (range.min !== undefined) return ` of at least ${range.min}${unit}`;
+  if (range.max !== undefined) return ` of at most ${range.max}${unit}`;
+  return "";
+}
+
+function answerJsonSchema(constraints: AskUserAnswerConstraints): JsonSchema {
+  const type = constraints.answerType ?? "string";
+  if (type === "boolean") return { type };
+  if (type === "number" || type === "integer") {
+    return {
+      type,
+      ...(constraints.min !== undefined ? { minimum: constraints.min } : {}),
+      ...(constraints.max !== undefined ? { maximum: constraints.max } : {})
+    };
+  }
+  return {
+    type,
+    ...(constraints.min !== undefined ? { minLength: constraints.min } : {}),
+    ...(constraints.max !== undefined ? { maxLength: constraints.max } : {}),
+    ...(constraints.pattern !== undefined ? { pattern: `^(?:${constraints.pattern})$` } : {}),
+    ...(constraints.format !== undefined ? { format: constraints.format } : {})
+  };
+}
+
+/** The elicitation form field for a typed answer; it cannot carry `pattern`. */
+function answerSchemaProperty(constraints: AskUserAnswerConstraints, title: string): AskUserSchemaProperty {
+  const type = constraints.answerType ?? "string";
+  if (type === "boolean") return { type, title };
+  if (type === "number" || type === "integer") {
+    return {
+      type,
+      title,
+      ...(constraints.min !== undefined ? { minimum: constraints.min } : {}),
+      ...(constraints.max !== undefined ? { maximum: constraints.max } : {})
+    };
+  }
+  return {
+    type,
+    title,
+    ...(constraints.min !== undefined ? { minLength: constraints.min } : {}),
+    ...(constraints.max !== undefined ? { maxLength: constraints.max } : {}),
+    ...(constraints.format !== undefined ? { format: constraints.format } : {})
+  };
+}
+
+function parseOrThrow(raw: AskUserAnswerValue, constraints: AskUserAnswerConstraints): AskUserAnswerValue {
+  const parsed = parseAskUserTypedAnswer(raw, constraints);
+  if ("error" in parsed) throw new AskUserAnswerInvalidError(parsed.error);
+  return parsed.value;
+}
+
+function parseYesNo(value: string): boolean | undefined {
+  const normalized = value.toLowerCase();
+  if (["y", "yes", "true", "1"].includes(normalized)) return true;
+  if (["n", "no", "false", "0"].includes(normalized)) return false;
+  return undefined;
+}
+
 function normalizeSelections(
   selection: string | number | boolean | string[] | undefined,
   optionSet: Set<string>,
@@ -0,0 +1,40 @@
+import process from "node:process";
+import path from "node:path";
+
+import { DEFAULT_AUDIT_LOG_PATH, verifyAuditLog } from "./audit.js";
+
+const USAGE = "Usage: handraise-audit verify [path]  (defaults to HANDRAISE_AUDIT_PATH or .handraise/audit.jsonl)";
+
+export async function runAuditCli(argv: string[] = process.argv.slice(2)): Promise<number> {
+  const [command, target] = argv;
+  if (command !== "verify") {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const logPath = path.resolve(target ?? (process.env.HANDRAISE_AUDIT_PATH?.trim() || DEFAULT_AUDIT_LOG_PATH));
+  const result = await verifyAuditLog(logPath);
+  if (result.ok) {
+    console.log(`[handraise audit] ${logPath}: ${result.entries} entries verified.`);
+    return 0;
+  }
+
+  console.error(`[handraise audit] ${logPath}: verification failed.`);
+  for (const issue of result.issues) {
+    console.error(`  ${issue.line !== undefined ? `line ${issue.line}: ` : ""}${issue.message}`);
+  }
+  return 1;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runAuditCli().then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error: unknown) => {
+      const message = error instanceof Error ? error.stack ?? error.message : String(error);
+      console.error(message);
+      process.exitCode = 1;
+    }
+  );
+}
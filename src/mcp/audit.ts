@@ -0,0 +1,269 @@
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { fingerprintArgs } from "./grants.js";
+import type { PolicyMatchedRule } from "./policy.js";
+import type {
+  McpApprovalScope,
+  McpApprovalTimeoutBehavior,
+  McpApprover,
+  McpCallBudgetExceeded,
+  McpCallerContext,
+  McpRiskClass,
+  McpToolName
+} from "./types.js";
+import { errorMessage } from "./util.js";
+
+export const DEFAULT_AUDIT_LOG_PATH = ".handraise/audit.jsonl";
+
+/** `prevHash` of the first entry in a log. */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+export type McpApprovalAuditEvent =
+  | {
+      kind: "requested";
+      traceId: string;
+      toolName: McpToolName;
+      summary: string;
+      risk: McpRiskClass;
+      riskScore?: number;
+      riskReasons?: string[];
+      displayArgs: unknown;
+      matchedRule: PolicyMatchedRule;
+      budgetExceeded?: McpCallBudgetExceeded;
+      context?: McpCallerContext;
+      atMs: number;
+    }
+  | {
+      kind: "timed_out";
+      traceId: string;
+      toolName: McpToolName;
+      behavior: McpApprovalTimeoutBehavior;
+      atMs: number;
+    }
+  | {
+      kind: "cancelled";
+      traceId: string;
+      toolName: McpToolName;
+      atMs: number;
+    }
+  | {
+      kind: "decided";
+      traceId: string;
+      toolName: McpToolName;
+      decision: "approve" | "deny";
+      reason?: string;
+      approver?: McpApprover;
+      scope?: McpApprovalScope;
+      /** Redacted the same way as `displayArgs`. */
+      overrideArgs?: unknown;
+      /** Set when an existing grant approved the call instead of a person. */
+      grantId?: string;
+      atMs: number;
+      /** Time from the request to the decision; 0 for grants. */
+      waitedMs: number;
+    }
+  | {
+      kind: "reviewed";
+      traceId: string;
+      toolName: McpToolName;
+      decision: "release" | "redact" | "withhold";
+      /** JSON paths the reviewer redacted. */
+      paths?: string[];
+      reason?: string;
+      approver?: McpApprover;
+      atMs: number;
+    }
+  | {
+      kind: "executed";
+      traceId: string;
+      toolName: McpToolName;
+      outcome: "success" | "error";
+      error?: string;
+      atMs: number;
+      durationMs: number;
+    };
+
+/**
+ * Receives every approval event the gate produces. A failing `append`
+ * fails the call, so an unrecorded call never runs.
+ */
+export type McpApprovalAuditSink = {
+  append: (event: McpApprovalAuditEvent) => void | Promise<void>;
+};
+
+export type McpAuditLogEntry = {
+  seq: number;
+  prevHash: string;
+  hash: string;
+  event: McpApprovalAuditEvent;
+};
+
+export type McpAuditLogIssue = {
+  /** 1-based line in the log; absent for issues with the log as a whole. */
+  line?: number;
+  message: string;
+};
+
+export type McpAuditLogVerification = {
+  ok: boolean;
+  entries: number;
+  issues: McpAuditLogIssue[];
+};
+
+type AuditLogHead = {
+  seq: number;
+  hash: string;
+};
+
+/**
+ * An append-only JSONL audit sink. Each entry carries the hash of the entry
+ * before it, and `<path>.head` records the latest entry, so `verifyAuditLog`
+ * can detect edited, removed or truncated entries.
+ */
+export function createJsonlAuditSink(opts: { path?: string; cwd?: string } = {}): McpApprovalAuditSink & {
+  path: string;
+} {
+  const logPath = path.resolve(opts.cwd ?? process.cwd(), opts.path ?? DEFAULT_AUDIT_LOG_PATH);
+  let head: Promise<AuditLogHead> | undefined;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const append = (event: McpApprovalAuditEvent): Promise<void> => {
+    const run = queue.then(async () => {
+      head ??= readAuditLogHead(logPath);
+      const previous = await head;
+      const seq = previous.seq + 1;
+      const entry: McpAuditLogEntry = {
+        seq,
+        prevHash: previous.hash,
+        hash: hashAuditEntry(previous.hash, seq, event),
+        event
+      };
+
+      await mkdir(path.dirname(logPath), { recursive: true });
+      await appendFile(logPath, `${JSON.stringify(entry)}\n`, "utf8");
+      await writeAuditLogHead(logPath, { seq, hash: entry.hash });
+      head = Promise.resolve({ seq, hash: entry.hash });
+    });
+    // Keep the queue alive after a failure; the caller still sees the error.
+    queue = run.catch(() => {
+      head = undefined;
+    });
+    return run;
+  };
+
+  return { path: logPath, append };
+}
+
+export function hashAuditEntry(prevHash: string, seq: number, event: McpApprovalAuditEvent): string {
+  return createHash("sha256").update(`${prevHash}\n${fingerprintArgs({ seq, event })}`).digest("hex");
+}
+
+export async function verifyAuditLog(logPath: string): Promise<McpAuditLogVerification> {
+  const issues: McpAuditLogIssue[] = [];
+
+  let text: string;
+  try {
+    text = await readFile(logPath, "utf8");
+  } catch (error: unknown) {
+    const message = errorMessage(error);
+    return { ok: false, entries: 0, issues: [{ message }] };
+  }
+
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  else if (lines.length > 0) issues.push({ line: lines.length, message: "last entry is incomplete" });
+
+  let prevHash = AUDIT_GENESIS_HASH;
+  let entries = 0;
+  for (const [index, line] of lines.entries()) {
+    const lineNo = index + 1;
+    const entry = parseAuditLogEntry(line);
+    if (!entry) {
+      issues.push({ line: lineNo, message: "not a valid audit entry" });
+      break;
+    }
+    if (entry.seq !== lineNo) {
+      issues.push({ line: lineNo, message: `expected seq ${lineNo}, found ${entry.seq}` });
+    }
+    if (entry.prevHash !== prevHash) {
+      issues.push({ line: lineNo, message: "chain broken: prevHash does not match the previous entry" });
+    }
+    if (hashAuditEntry(entry.prevHash, entry.seq, entry.event) !== entry.hash) {
+      issues.push({ line: lineNo, message: "hash mismatch: entry was modified" });
+    }
+    prevHash = entry.hash;
+    entries += 1;
+  }
+
+  const head = await readAuditLogHeadFile(logPath);
+  if (!head) {
+    if (entries > 0) issues.push({ message: `missing or unreadable ${headPath(logPath)}` });
+  } else if (head.seq !== entries || head.hash !== prevHash) {
+    issues.push({
+      message:
+        head.seq > entries
+          ? `log is truncated: head records ${head.seq} entries, found ${entries}`
+          : `log does not match head: head records entry ${head.seq}, log ends at ${entries}`
+    });
+  }
+
+  return { ok: issues.length === 0, entries, issues };
+}
+
+async function readAuditLogHead(logPath: string): Promise<AuditLogHead> {
+  let text: string;
+  try {
+    text = await readFile(logPath, "utf8");
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { seq: 0, hash: AUDIT_GENESIS_HASH };
+    throw error;
+  }
+
+  const last = text.trimEnd().split("\n").pop();
+  if (!last) return { seq: 0, hash: AUDIT_GENESIS_HASH };
+  const entry = parseAuditLogEntry(last);
+  if (!entry) throw new Error(`Cannot append to ${logPath}: last entry is not a valid audit entry.`);
+  return { seq: entry.seq, hash: entry.hash };
+}
+
+async function readAuditLogHeadFile(logPath: string): Promise<AuditLogHead | undefined> {
+  try {
+    const parsed = JSON.parse(await readFile(headPath(logPath), "utf8")) as Partial<AuditLogHead>;
+    if (typeof parsed.seq === "number" && typeof parsed.hash === "string") {
+      return { seq: parsed.seq, hash: parsed.hash };
+    }
+  } catch {
+    // Reported by the caller.
+  }
+  return undefined;
+}
+
+async function writeAuditLogHead(logPath: string, head: AuditLogHead): Promise<void> {
+  const tmpPath = `${headPath(logPath)}.tmp`;
+  await writeFile(tmpPath, `${JSON.stringify(head)}\n`, "utf8");
+  await rename(tmpPath, headPath(logPath));
+}
+
+function headPath(logPath: string): string {
+  return `${logPath}.head`;
+}
+
+function parseAuditLogEntry(line: string): McpAuditLogEntry | undefined {
+  try {
+    const parsed = JSON.parse(line) as Partial<McpAuditLogEntry>;
+    if (
+      typeof parsed.seq === "number" &&
+      typeof parsed.prevHash === "string" &&
+      typeof parsed.hash === "string" &&
+      typeof parsed.event === "object" &&
+      parsed.event !== null
+    ) {
+      return parsed as McpAuditLogEntry;
+    }
+  } catch {
+    // Fall through.
+  }
+  return undefined;
+}
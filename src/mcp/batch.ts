@@ -0,0 +1,89 @@
+import { McpHumanApprovalInvalidDecisionError } from "./errors.js";
+import type { HandraiseAdapter, McpApprovalDecision, McpApprovalRequest, McpHumanInLoopLogger } from "./types.js";
+
+export type McpApprovalBatcherOptions = {
+  adapter: HandraiseAdapter;
+  /** How long the first request of a batch waits for others to join it. */
+  windowMs: number;
+  randomUUID: () => string;
+  logger?: McpHumanInLoopLogger;
+};
+
+export type McpApprovalBatcher = {
+  request: (req: McpApprovalRequest, signal?: AbortSignal) => Promise<McpApprovalDecision>;
+};
+
+type PendingRequest = {
+  req: McpApprovalRequest;
+  signal: AbortSignal | undefined;
+  resolve: (decision: McpApprovalDecision) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Collects requests that arrive within `windowMs` of the first one and asks
+ * for them in a single `requestBatchApproval` call. A window that holds only
+ * one request is asked with `requestApproval` as usual. A request aborted
+ * before its batch goes out is left out of it; the batch prompt itself is
+ * withdrawn only once every request in it has been aborted.
+ */
+export function createApprovalBatcher(opts: McpApprovalBatcherOptions): McpApprovalBatcher {
+  let pending: PendingRequest[] = [];
+
+  const flush = async (): Promise<void> => {
+    const batch = pending.filter((item) => !item.signal?.aborted);
+    pending = [];
+    const [first] = batch;
+    if (!first) return;
+
+    if (batch.length === 1 || !opts.adapter.requestBatchApproval) {
+      for (const item of batch) opts.adapter.requestApproval(item.req, item.signal).then(item.resolve, item.reject);
+      return;
+    }
+
+    const controller = new AbortController();
+    let remaining = batch.length;
+    for (const item of batch) {
+      item.signal?.addEventListener(
+        "abort",
+        () => {
+          remaining -= 1;
+          if (remaining === 0) controller.abort();
+        },
+        { once: true }
+      );
+    }
+
+    const batchId = opts.randomUUID();
+    opts.logger?.info("mcp_approval_batch_requested", {
+      batchId,
+      size: batch.length,
+      traceIds: batch.map((item) => item.req.traceId)
+    });
+
+    let decisions: McpApprovalDecision[];
+    try {
+      decisions = await opts.adapter.requestBatchApproval(
+        { batchId, requests: batch.map((item) => item.req) },
+        controller.signal
+      );
+    } catch (error: unknown) {
+      for (const item of batch) item.reject(error);
+      return;
+    }
+    batch.forEach((item, index) => {
+      const decision = decisions[index];
+      if (decision) item.resolve(decision);
+      else item.reject(new McpHumanApprovalInvalidDecisionError());
+    });
+  };
+
+  return {
+    request(req, signal) {
+      return new Promise((resolve, reject) => {
+        pending.push({ req, signal, resolve, reject });
+        if (pending.length === 1) setTimeout(() => void flush(), opts.windowMs);
+      });
+    }
+  };
+}
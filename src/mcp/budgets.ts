@@ -0,0 +1,63 @@
+import type {
+  McpCallBudgetExceeded,
+  McpCallBudgetExceededBehavior,
+  McpSessionCallBudget,
+  McpToolName,
+  McpToolRateLimit
+} from "./types.js";
+
+export type McpCallBudgetCheck = {
+  budget: McpCallBudgetExceeded;
+  onExceeded: McpCallBudgetExceededBehavior;
+};
+
+/**
+ * Counts tool executions for the gate's rate limits and session budget.
+ * Limits are passed on every call, so a reloaded policy applies at once.
+ * Rate-limit windows are kept per tool name, whichever rule set the limit.
+ */
+export type McpCallBudgetTracker = {
+  /** The first budget the next call to `toolName` would exceed, if any. */
+  check: (
+    toolName: McpToolName,
+    limits: { rateLimit?: McpToolRateLimit; sessionBudget?: McpSessionCallBudget },
+    nowMs: number
+  ) => McpCallBudgetCheck | undefined;
+  record: (toolName: McpToolName, rateLimit: McpToolRateLimit | undefined, nowMs: number) => void;
+};
+
+export function createCallBudgetTracker(): McpCallBudgetTracker {
+  // Only the newest `maxCalls` timestamps per tool can decide a limit.
+  const recent = new Map<McpToolName, number[]>();
+  let sessionCalls = 0;
+
+  return {
+    check(toolName, limits, nowMs) {
+      const { rateLimit, sessionBudget } = limits;
+      if (sessionBudget && sessionCalls >= sessionBudget.maxCalls) {
+        return {
+          budget: { kind: "session", maxCalls: sessionBudget.maxCalls },
+          onExceeded: sessionBudget.onExceeded ?? "requireApproval"
+        };
+      }
+      if (rateLimit) {
+        const windowStart = nowMs - rateLimit.windowMs;
+        const inWindow = (recent.get(toolName) ?? []).filter((atMs) => atMs > windowStart).length;
+        if (inWindow >= rateLimit.maxCalls) {
+          return {
+            budget: { kind: "rateLimit", maxCalls: rateLimit.maxCalls, windowMs: rateLimit.windowMs },
+            onExceeded: rateLimit.onExceeded ?? "requireApproval"
+          };
+        }
+      }
+      return undefined;
+    },
+    record(toolName, rateLimit, nowMs) {
+      sessionCalls += 1;
+      if (!rateLimit) return;
+      const timestamps = recent.get(toolName) ?? [];
+      timestamps.push(nowMs);
+      recent.set(toolName, timestamps.slice(-rateLimit.maxCalls));
+    }
+  };
+}
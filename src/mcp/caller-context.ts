@@ -0,0 +1,83 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import type { McpCallerContext } from "./types.js";
+
+/** The `_meta` key a client sets on `tools/call` to name the call's parent trace. */
+export const PARENT_TRACE_META_KEY = "handraise/parentTraceId";
+
+export type CallerContextSource = {
+  /** The client's `clientInfo` from the MCP `initialize` handshake. */
+  agent?: { name: string; version?: string };
+  sessionId?: string;
+  workspace?: string;
+  /** The request's `_meta`. */
+  meta?: Record<string, unknown>;
+};
+
+/**
+ * Builds the caller context for a call. The git branch is read from the
+ * repository containing `workspace` on every call, so a branch switch shows
+ * up on the next request.
+ */
+export async function resolveCallerContext(source: CallerContextSource): Promise<McpCallerContext> {
+  const gitBranch = source.workspace !== undefined ? await readGitBranch(source.workspace) : undefined;
+  const parentTraceId = source.meta?.[PARENT_TRACE_META_KEY];
+  return {
+    ...(source.agent?.name ? { agentName: source.agent.name } : {}),
+    ...(source.agent?.version ? { agentVersion: source.agent.version } : {}),
+    ...(source.sessionId !== undefined ? { sessionId: source.sessionId } : {}),
+    ...(source.workspace !== undefined ? { workspace: source.workspace } : {}),
+    ...(gitBranch !== undefined ? { gitBranch } : {}),
+    ...(typeof parentTraceId === "string" && parentTraceId.length > 0 ? { parentTraceId } : {})
+  };
+}
+
+/**
+ * The checked-out branch of the repository containing `dir`, or the short
+ * commit id when HEAD is detached. Returns `undefined` outside a repository.
+ */
+export async function readGitBranch(dir: string): Promise<string | undefined> {
+  const gitDir = await findGitDir(path.resolve(dir));
+  if (!gitDir) return undefined;
+
+  let head: string;
+  try {
+    head = (await readFile(path.join(gitDir, "HEAD"), "utf8")).trim();
+  } catch {
+    return undefined;
+  }
+  const ref = /^ref:\s*refs\/heads\/(.+)$/.exec(head);
+  if (ref) return ref[1];
+  return /^[0-9a-f]{40,64}$/.test(head) ? head.slice(0, 7) : undefined;
+}
+
+/**
+ * A short label for responders, e.g. `claude-code · feature/login · api`.
+ * Returns `undefined` when the context names nothing.
+ */
+export function formatCallerContext(context: McpCallerContext | undefined): string | undefined {
+  if (!context) return undefined;
+  const parts = [
+    context.agentName,
+    context.gitBranch,
+    context.workspace !== undefined ? path.basename(context.workspace) || context.workspace : undefined,
+    context.sessionId !== undefined ? `session ${context.sessionId.slice(0, 8)}` : undefined
+  ].filter((part): part is string => part !== undefined && part.length > 0);
+  return parts.length > 0 ? parts.join(" · ") : undefined;
+}
+
+async function findGitDir(start: string): Promise<string | undefined> {
+  for (let dir = start; ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, ".git");
+    try {
+      if ((await stat(candidate)).isDirectory()) return candidate;
+      // Worktrees and submodules have a `.git` file pointing at the real directory.
+      const pointer = /^gitdir:\s*(.+)$/m.exec(await readFile(candidate, "utf8"));
+      if (pointer) return path.resolve(dir, pointer[1]!.trim());
+    } catch {
+      // Not here; keep walking up.
+    }
+    if (path.dirname(dir) === dir) return undefined;
+  }
+}
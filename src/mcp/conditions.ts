@@ -0,0 +1,76 @@
+import { McpPolicyPatternError } from "./errors.js";
+import { selectJsonPath } from "./json-path.js";
+import type { McpToolArgs } from "./types.js";
+import { createBoundedCache, errorMessage, jsonEquals } from "./util.js";
+
+export type ArgComparisonOperator = "lt" | "lte" | "gt" | "gte";
+
+/**
+ * A predicate over a tool call's `args`. Leaf conditions select values with a
+ * JSON path (`$.command`, `$.files[*].path`) and hold when any selected value
+ * satisfies them; a path that selects nothing never holds.
+ */
+export type ArgCondition =
+  | { kind: "equals"; path: string; value: unknown }
+  | { kind: "matches"; path: string; pattern: string; flags?: string }
+  | { kind: "compare"; path: string; op: ArgComparisonOperator; value: number }
+  | { kind: "all"; conditions: ArgCondition[] }
+  | { kind: "any"; conditions: ArgCondition[] }
+  | { kind: "not"; condition: ArgCondition };
+
+const regexCache = createBoundedCache<string, RegExp>(500);
+
+export function evaluateArgCondition(condition: ArgCondition, args: McpToolArgs): boolean {
+  switch (condition.kind) {
+    case "equals":
+      return selectJsonPath(args, condition.path).some((value) => jsonEquals(value, condition.value));
+    case "matches": {
+      const regex = compileConditionRegex(condition.pattern, condition.flags);
+      return selectJsonPath(args, condition.path).some(
+        (value) => typeof value === "string" && regex.test(value)
+      );
+    }
+    case "compare":
+      return selectJsonPath(args, condition.path).some(
+        (value) => typeof value === "number" && compareNumbers(value, condition.op, condition.value)
+      );
+    case "all":
+      return condition.conditions.every((c) => evaluateArgCondition(c, args));
+    case "any":
+      return condition.conditions.some((c) => evaluateArgCondition(c, args));
+    case "not":
+      return !evaluateArgCondition(condition.condition, args);
+  }
+}
+
+function compareNumbers(actual: number, op: ArgComparisonOperator, expected: number): boolean {
+  switch (op) {
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+  }
+}
+
+/** Compiles and caches a regex, throwing `McpPolicyPatternError` when it is invalid. */
+export function compileConditionRegex(pattern: string, flags: string | undefined): RegExp {
+  // Stateful flags would make repeated `test` calls alternate results.
+  const safeFlags = (flags ?? "").replaceAll("g", "").replaceAll("y", "");
+  const cacheKey = `${safeFlags}/${pattern}`;
+  const cached = regexCache.get(cacheKey);
+  if (cached) return cached;
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, safeFlags);
+  } catch (error: unknown) {
+    const reason = errorMessage(error);
+    throw new McpPolicyPatternError({ pattern, reason });
+  }
+  regexCache.set(cacheKey, regex);
+  return regex;
+}
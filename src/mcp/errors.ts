@@ -1,3 +1,5 @@
+import type { McpCallBudgetExceeded } from "./types.js";
+
 export class McpHumanApprovalDeniedError extends Error {
   public readonly traceId: string;
   public readonly toolName: string;
@@ -12,9 +14,188 @@ export class McpHumanApprovalDeniedError extends Error {
   }
 }
 
+export class McpHumanApprovalTimeoutError extends Error {
+  public readonly traceId: string;
+  public readonly toolName: string;
+  public readonly timeoutMs: number;
+
+  constructor(opts: { traceId: string; toolName: string; timeoutMs: number }) {
+    super(`MCP tool approval timed out after ${opts.timeoutMs}ms: ${opts.toolName}`);
+    this.name = "McpHumanApprovalTimeoutError";
+    this.traceId = opts.traceId;
+    this.toolName = opts.toolName;
+    this.timeoutMs = opts.timeoutMs;
+  }
+}
+
+export class McpHumanApprovalCancelledError extends Error {
+  public readonly traceId: string;
+  public readonly toolName: string;
+
+  constructor(opts: { traceId: string; toolName: string }) {
+    super(`MCP tool approval cancelled: ${opts.toolName}`);
+    this.name = "McpHumanApprovalCancelledError";
+    this.traceId = opts.traceId;
+    this.toolName = opts.toolName;
+  }
+}
+
+export class McpResultWithheldError extends Error {
+  public readonly traceId: string;
+  public readonly toolName: string;
+  public readonly reason: string | undefined;
+
+  constructor(opts: { traceId: string; toolName: string; reason: string | undefined }) {
+    super(`MCP tool result withheld by the reviewer: ${opts.toolName}`);
+    this.name = "McpResultWithheldError";
+    this.traceId = opts.traceId;
+    this.toolName = opts.toolName;
+    this.reason = opts.reason;
+  }
+}
+
+export class McpCallBudgetExceededError extends Error {
+  public readonly toolName: string;
+  public readonly budget: McpCallBudgetExceeded;
+
+  constructor(opts: { toolName: string; budget: McpCallBudgetExceeded }) {
+    const limit =
+      opts.budget.kind === "rateLimit"
+        ? `${opts.budget.maxCalls} calls per ${opts.budget.windowMs}ms`
+        : `${opts.budget.maxCalls} calls per session`;
+    super(`MCP tool call budget exceeded (${limit}): ${opts.toolName}`);
+    this.name = "McpCallBudgetExceededError";
+    this.toolName = opts.toolName;
+    this.budget = opts.budget;
+  }
+}
+
+export type McpArgsValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export class McpApprovalArgsValidationError extends Error {
+  public readonly traceId: string;
+  public readonly toolName: string;
+  public readonly issues: McpArgsValidationIssue[];
+
+  constructor(opts: { traceId: string; toolName: string; issues: McpArgsValidationIssue[] }) {
+    super(
+      `Edited arguments for ${opts.toolName} do not match its schema:\n` +
+        opts.issues.map((issue) => `  ${issue.path}: ${issue.message}`).join("\n")
+    );
+    this.name = "McpApprovalArgsValidationError";
+    this.traceId = opts.traceId;
+    this.toolName = opts.toolName;
+    this.issues = opts.issues;
+  }
+}
+
 export class McpHumanApprovalInvalidDecisionError extends Error {
   constructor() {
     super("Invalid human approval decision");
     this.name = "McpHumanApprovalInvalidDecisionError";
   }
 }
+
+export class McpPolicyProfileError extends Error {
+  public readonly profile: string;
+
+  constructor(opts: { profile: string; message: string }) {
+    super(`Policy profile '${opts.profile}': ${opts.message}`);
+    this.name = "McpPolicyProfileError";
+    this.profile = opts.profile;
+  }
+}
+
+export class McpPolicyPatternError extends Error {
+  public readonly pattern: string;
+  public readonly reason: string;
+
+  constructor(opts: { pattern: string; reason: string }) {
+    super(`Invalid policy pattern '${opts.pattern}': ${opts.reason}`);
+    this.name = "McpPolicyPatternError";
+    this.pattern = opts.pattern;
+    this.reason = opts.reason;
+  }
+}
+
+export class JsonPathSyntaxError extends Error {
+  public readonly path: string;
+  public readonly position: number;
+
+  constructor(opts: { path: string; position: number; reason: string }) {
+    super(`Invalid JSON path '${opts.path}' at position ${opts.position}: ${opts.reason}`);
+    this.name = "JsonPathSyntaxError";
+    this.path = opts.path;
+    this.position = opts.position;
+  }
+}
+
+export type McpPolicyLoadIssue = {
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+};
+
+export class McpPolicyLoadError extends Error {
+  public readonly source: string;
+  public readonly issues: McpPolicyLoadIssue[];
+
+  constructor(opts: { source: string; issues: McpPolicyLoadIssue[] }) {
+    super(
+      [`Invalid approval policy in ${opts.source}:`, ...opts.issues.map(formatPolicyLoadIssue)].join("\n")
+    );
+    this.name = "McpPolicyLoadError";
+    this.source = opts.source;
+    this.issues = opts.issues;
+  }
+}
+
+export class McpProxyConfigError extends Error {
+  public readonly source: string;
+  public readonly issues: McpPolicyLoadIssue[];
+
+  constructor(opts: { source: string; issues: McpPolicyLoadIssue[] }) {
+    super(
+      [`Invalid proxy configuration in ${opts.source}:`, ...opts.issues.map(formatPolicyLoadIssue)].join("\n")
+    );
+    this.name = "McpProxyConfigError";
+    this.source = opts.source;
+    this.issues = opts.issues;
+  }
+}
+
+export class AskUserBridgeBusyError extends Error {
+  constructor() {
+    super("Only one pending askUser prompt is allowed at a time.");
+    this.name = "AskUserBridgeBusyError";
+  }
+}
+
+export class AskUserPromptCancelledError extends Error {
+  public readonly promptId: string;
+
+  constructor(opts: { promptId: string }) {
+    super(`askUser prompt '${opts.promptId}' was cancelled.`);
+    this.name = "AskUserPromptCancelledError";
+    this.promptId = opts.promptId;
+  }
+}
+
+export class AskUserAnswerInvalidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AskUserAnswerInvalidError";
+  }
+}
+
+function formatPolicyLoadIssue(issue: McpPolicyLoadIssue): string {
+  const location =
+    issue.line !== undefined
+      ? ` (line ${issue.line}${issue.column !== undefined ? `, column ${issue.column}` : ""})`
+      : "";
+  return `  ${issue.path || "<root>"}${location}: ${issue.message}`;
+}
@@ -0,0 +1,142 @@
+import type {
+  HandraiseAdapter,
+  McpApprovalDecision,
+  McpHumanInLoopLogger,
+  McpResultReviewDecision,
+  McpToolName
+} from "./types.js";
+import { errorMessage } from "./util.js";
+
+export type McpEscalationStep = {
+  /** Names the step in logs; defaults to `step <n>`. */
+  name?: string;
+  adapter: HandraiseAdapter;
+  /**
+   * How long the step may take before the request moves on. Only the last
+   * step may omit it. Keep the adapter's own timeout longer: a deny it gives
+   * up with first is final, so the request would not escalate.
+   */
+  timeoutMs?: number;
+};
+
+export type McpEscalationChainOptions = {
+  steps: McpEscalationStep[];
+  logger?: McpHumanInLoopLogger;
+  nowMs?: () => number;
+};
+
+type ChainRequest = {
+  traceId: string;
+  toolName: McpToolName;
+  createdAtMs: number;
+  expiresAtMs?: number;
+};
+
+const TIMED_OUT = Symbol("timed_out");
+
+/**
+ * A `HandraiseAdapter` that asks each step in turn. A step that does not
+ * decide within its `timeoutMs`, or that fails, is withdrawn by aborting its
+ * signal and the request moves on to the next step with a fresh
+ * `createdAtMs`/`expiresAtMs`. Any decision a step returns ends the chain,
+ * including the deny an adapter gives when its own timeout runs out (the
+ * bridge adapter's defaults to 5 minutes), so give each step's adapter a
+ * longer timeout than the step. When every step has passed, the call is
+ * denied (or its result withheld). Steps without `reviewResult` are skipped
+ * for result reviews.
+ *
+ * The chain has no `requestBatchApproval`, so a gate using it does not batch
+ * even with `batchWindowMs`; each call escalates on its own.
+ *
+ * Each hop is logged with the request's `traceId`. Keep the gate's
+ * `approvalTimeoutMs` unset or longer than the whole chain.
+ */
+export function createEscalationChainAdapter(opts: McpEscalationChainOptions): HandraiseAdapter {
+  if (opts.steps.length === 0) throw new Error("An escalation chain needs at least one step.");
+  if (opts.steps.slice(0, -1).some((step) => step.timeoutMs === undefined)) {
+    throw new Error("Only the last escalation step may omit timeoutMs.");
+  }
+  const nowMs = opts.nowMs ?? (() => Date.now());
+  const stepName = (index: number): string => opts.steps[index]?.name ?? `step ${index + 1}`;
+
+  async function runChain<TReq extends ChainRequest, TDecision>(
+    req: TReq,
+    signal: AbortSignal | undefined,
+    select: (adapter: HandraiseAdapter) => ((req: TReq, signal: AbortSignal) => Promise<TDecision>) | undefined,
+    exhausted: TDecision
+  ): Promise<TDecision> {
+    for (const [index, step] of opts.steps.entries()) {
+      const ask = select(step.adapter);
+      if (!ask) continue;
+      signal?.throwIfAborted();
+
+      const startedAtMs = nowMs();
+      const stepReq: TReq = {
+        ...req,
+        createdAtMs: startedAtMs,
+        ...(step.timeoutMs !== undefined ? { expiresAtMs: startedAtMs + step.timeoutMs } : {})
+      };
+      opts.logger?.info("mcp_approval_chain_step", {
+        traceId: req.traceId,
+        toolName: req.toolName,
+        step: stepName(index),
+        timeoutMs: step.timeoutMs
+      });
+
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        const outcome = await Promise.race([
+          ask(stepReq, controller.signal),
+          new Promise<typeof TIMED_OUT>((resolve) => {
+            if (step.timeoutMs !== undefined) timer = setTimeout(() => resolve(TIMED_OUT), step.timeoutMs);
+          })
+        ]);
+        if (outcome !== TIMED_OUT) return outcome;
+        opts.logger?.warn("mcp_approval_chain_escalated", {
+          traceId: req.traceId,
+          toolName: req.toolName,
+          from: stepName(index),
+          to: index + 1 < opts.steps.length ? stepName(index + 1) : undefined,
+          waitedMs: nowMs() - startedAtMs
+        });
+      } catch (error: unknown) {
+        if (signal?.aborted) throw error;
+        opts.logger?.warn("mcp_approval_chain_step_failed", {
+          traceId: req.traceId,
+          toolName: req.toolName,
+          step: stepName(index),
+          error: errorMessage(error)
+        });
+      } finally {
+        if (timer !== undefined) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        // Withdraws the step's prompt once the request has moved on.
+        controller.abort();
+      }
+    }
+
+    opts.logger?.warn("mcp_approval_chain_exhausted", { traceId: req.traceId, toolName: req.toolName });
+    return exhausted;
+  }
+
+  return {
+    requestApproval(req, signal) {
+      const exhausted: McpApprovalDecision = {
+        decision: "deny",
+        reason: "No approver in the escalation chain responded in time."
+      };
+      return runChain(req, signal, (adapter) => adapter.requestApproval.bind(adapter), exhausted);
+    },
+
+    reviewResult(req, signal) {
+      const exhausted: McpResultReviewDecision = {
+        decision: "withhold",
+        reason: "No reviewer in the escalation chain responded in time."
+      };
+      return runChain(req, signal, (adapter) => adapter.reviewResult?.bind(adapter), exhausted);
+    }
+  };
+}
@@ -1,23 +1,95 @@
 import type {
   HandraiseAdapter,
   McpApprovalDecision,
+  McpApprovalQuorum,
   McpApprovalRequest,
+  McpApprover,
+  McpApprovalScope,
+  McpApprovalTimeoutBehavior,
   McpHumanInLoopLogger,
+  McpResultReviewDecision,
+  McpRiskClass,
   McpToolCall,
   McpToolExecutor
 } from "./types.js";
-import { McpHumanApprovalDeniedError, McpHumanApprovalInvalidDecisionError } from "./errors.js";
-import { prepareArgsForDisplay } from "./redaction.js";
-import type { McpApprovalPolicy } from "./policy.js";
+import {
+  McpApprovalArgsValidationError,
+  McpCallBudgetExceededError,
+  McpHumanApprovalCancelledError,
+  McpHumanApprovalDeniedError,
+  McpHumanApprovalInvalidDecisionError,
+  McpHumanApprovalTimeoutError,
+  McpResultWithheldError
+} from "./errors.js";
+import { validateToolArgs } from "./args-schema.js";
+import type { McpApprovalAuditEvent, McpApprovalAuditSink } from "./audit.js";
+import { createApprovalBatcher } from "./batch.js";
+import { createCallBudgetTracker } from "./budgets.js";
+import type { McpApprovalGrant, McpApprovalGrantStore } from "./grants.js";
+import { createApprovalGrant, createInMemoryApprovalGrantStore, fingerprintArgs } from "./grants.js";
+import { parseJsonPath, selectJsonPath, updateJsonPath } from "./json-path.js";
+import type { ArgDisplayOptions } from "./redaction.js";
+import {
+  inspectArgsForDisplay,
+  prepareArgsForDisplay,
+  redactTextForDisplay,
+  restoreArgPlaceholders
+} from "./redaction.js";
+import { redactApprovalPreview, type McpApprovalPreviewRule } from "./preview.js";
+import type { McpRiskAssessment, McpRiskScorer } from "./risk.js";
+import { maxRiskClass } from "./risk.js";
+import { findMostSpecificToolEntry } from "./tool-pattern.js";
+import type { McpApprovalPolicy, PolicyMatch } from "./policy.js";
 import { matchPolicy } from "./policy.js";
+import { resolvePolicyProfile } from "./policy-profiles.js";
+import { errorMessage } from "./util.js";
 
 export type McpHumanInLoopGateOptions = {
-  policy: McpApprovalPolicy;
+  /** A policy, or a getter re-read on every call (see `watchMcpApprovalPolicy`). */
+  policy: McpApprovalPolicy | (() => McpApprovalPolicy);
   handraise: HandraiseAdapter;
   logger?: McpHumanInLoopLogger;
   nowMs?: () => number;
   randomUUID?: () => string;
   summarize?: (call: McpToolCall) => string;
+  /** Checked before prompting; approvals with a wider scope are recorded here. */
+  grants?: McpApprovalGrantStore;
+  /** How long to wait for a decision; unbounded when unset. `ToolRule` can override it. */
+  approvalTimeoutMs?: number;
+  onApprovalTimeout?: McpApprovalTimeoutBehavior;
+  /** Receives the request when `onApprovalTimeout` is `escalate`. */
+  escalation?: HandraiseAdapter;
+  /** Asked alongside `handraise` when a rule requires a quorum of approvers. */
+  approvers?: HandraiseAdapter[];
+  /** Records requests, decisions and execution outcomes (see `createJsonlAuditSink`). */
+  audit?: McpApprovalAuditSink;
+  /** Raises the policy's risk class and feeds `approvalScoreThreshold` (see `createHeuristicRiskScorer`). */
+  riskScorer?: McpRiskScorer;
+  /** Dry-run providers; the most specific match for a tool runs before its prompt. */
+  previews?: McpApprovalPreviewRule[];
+  /** How long a preview provider may run; defaults to 5 seconds. */
+  previewTimeoutMs?: number;
+  /**
+   * Requests arriving within this many ms of the first one are asked together
+   * through `handraise.requestBatchApproval`. Quorum requests are never batched.
+   */
+  batchWindowMs?: number;
+};
+
+const TIMED_OUT = Symbol("timed_out");
+const DEFAULT_PREVIEW_TIMEOUT_MS = 5000;
+
+export type McpHumanInLoopGate = ReturnType<typeof createMcpHumanInLoopGate>;
+
+export type McpExecuteWithApprovalOptions = {
+  /** Aborting withdraws a pending prompt and rejects with `McpHumanApprovalCancelledError`. */
+  signal?: AbortSignal;
+  /** Replaces the gate's `summarize` for this call. */
+  summary?: string;
+  /** Raises the policy's risk class for this call; never lowers it. */
+  risk?: McpRiskClass;
+  /** Asks for approval even when the policy would let the call run. */
+  requireApproval?: boolean;
 };
 
 export function createMcpHumanInLoopGate(opts: McpHumanInLoopGateOptions) {
@@ -33,45 +105,236 @@ export function createMcpHumanInLoopGate(opts: McpHumanInLoopGateOptions) {
       return cryptoObj.randomUUID();
     });
 
+  const grants = opts.grants ?? createInMemoryApprovalGrantStore();
+  const budgets = createCallBudgetTracker();
+  const batcher =
+    opts.batchWindowMs !== undefined && opts.batchWindowMs > 0 && opts.handraise.requestBatchApproval
+      ? createApprovalBatcher({
+          adapter: opts.handraise,
+          windowMs: opts.batchWindowMs,
+          randomUUID,
+          ...(opts.logger ? { logger: opts.logger } : {})
+        })
+      : undefined;
+
   const summarize =
     opts.summarize ??
     ((call) => {
       return `Run MCP tool '${call.toolName}'`;
     });
 
-  async function executeWithApproval<TResult>(
+  const audit = async (event: McpApprovalAuditEvent): Promise<void> => {
+    await opts.audit?.append(event);
+  };
+
+  async function execute<TResult>(
+    traceId: string | undefined,
+    call: McpToolCall,
+    match: PolicyMatch,
+    executor: McpToolExecutor<TResult>,
+    signal: AbortSignal | undefined
+  ): Promise<TResult> {
+    budgets.record(call.toolName, match.rateLimit, nowMs());
+    const result = await runAudited(traceId, call, executor);
+    if (!match.resultReview) return result;
+    return reviewResult(traceId ?? randomUUID(), call, match, match.resultReview.display, result, signal);
+  }
+
+  async function runAudited<TResult>(
+    traceId: string | undefined,
     call: McpToolCall,
     executor: McpToolExecutor<TResult>
   ): Promise<TResult> {
-    const match = matchPolicy(opts.policy, call.toolName);
-    if (!match.requireApproval) return executor(call);
+    if (!opts.audit || traceId === undefined) return executor(call);
+
+    const startedAtMs = nowMs();
+    let result: TResult;
+    try {
+      result = await executor(call);
+    } catch (error: unknown) {
+      const atMs = nowMs();
+      await audit({
+        kind: "executed",
+        traceId,
+        toolName: call.toolName,
+        outcome: "error",
+        error: errorMessage(error),
+        atMs,
+        durationMs: atMs - startedAtMs
+      });
+      throw error;
+    }
+    const atMs = nowMs();
+    await audit({
+      kind: "executed",
+      traceId,
+      toolName: call.toolName,
+      outcome: "success",
+      atMs,
+      durationMs: atMs - startedAtMs
+    });
+    return result;
+  }
+
+  async function executeWithApproval<TResult>(
+    call: McpToolCall,
+    executor: McpToolExecutor<TResult>,
+    execOpts: McpExecuteWithApprovalOptions = {}
+  ): Promise<TResult> {
+    const { signal } = execOpts;
+    const selected = typeof opts.policy === "function" ? opts.policy() : opts.policy;
+    const policy = selected.profile !== undefined ? resolvePolicyProfile(selected) : selected;
+    const assessment = opts.riskScorer?.(call);
+    const matched = applyRiskAssessment(matchPolicy(policy, call), assessment);
+    const raised =
+      execOpts.risk !== undefined ? { ...matched, risk: maxRiskClass(matched.risk, execOpts.risk) } : matched;
+    const match = execOpts.requireApproval ? { ...raised, requireApproval: true } : raised;
+
+    const exceeded = budgets.check(
+      call.toolName,
+      {
+        ...(match.rateLimit !== undefined ? { rateLimit: match.rateLimit } : {}),
+        ...(policy.sessionBudget !== undefined ? { sessionBudget: policy.sessionBudget } : {})
+      },
+      nowMs()
+    );
+    if (exceeded) {
+      opts.logger?.warn("mcp_budget_exceeded", {
+        toolName: call.toolName,
+        budget: exceeded.budget.kind,
+        maxCalls: exceeded.budget.maxCalls,
+        onExceeded: exceeded.onExceeded
+      });
+      if (exceeded.onExceeded === "fail") {
+        throw new McpCallBudgetExceededError({ toolName: call.toolName, budget: exceeded.budget });
+      }
+    }
+
+    if (!match.requireApproval && !exceeded) return execute(undefined, call, match, executor, signal);
+
+    // A grant stands for a single approval, so it never satisfies a quorum or
+    // an exhausted budget.
+    const needsQuorum = (match.quorum?.required ?? 1) > 1;
+    const found = needsQuorum || exceeded ? undefined : await grants.find(call, nowMs());
+    // A tool-wide grant was given without seeing these args, so a call the
+    // risk scorer rates high is asked about again.
+    const grant = found && found.scope !== "toolArgs" && assessment?.risk === "high" ? undefined : found;
+    if (found && !grant) {
+      opts.logger?.info("mcp_approval_grant_skipped", {
+        grantId: found.id,
+        toolName: call.toolName,
+        scope: found.scope,
+        reason: "high_risk"
+      });
+    }
+    if (grant) {
+      opts.logger?.info("mcp_approval_grant_used", {
+        grantId: grant.id,
+        traceId: grant.traceId,
+        toolName: call.toolName,
+        scope: grant.scope
+      });
+      await audit({
+        kind: "decided",
+        traceId: grant.traceId,
+        toolName: call.toolName,
+        decision: "approve",
+        grantId: grant.id,
+        atMs: nowMs(),
+        waitedMs: 0
+      });
+      return execute(grant.traceId, call, match, executor, signal);
+    }
 
     const traceId = randomUUID();
-    const displayArgs = prepareArgsForDisplay(call.args, match.argDisplay);
+    const { displayArgs, secretDetections, placeholders } = inspectArgsForDisplay(call.args, match.argDisplay, {
+      placeholders: true
+    });
 
+    const timeoutMs = match.approvalTimeoutMs ?? opts.approvalTimeoutMs;
+    const preview = await runPreview(traceId, call, match.argDisplay);
+    const createdAtMs = nowMs();
     const req: McpApprovalRequest = {
       traceId,
       toolName: call.toolName,
-      summary: summarize(call),
+      summary: execOpts.summary ?? summarize(call),
       risk: match.risk,
       displayArgs,
-      createdAtMs: nowMs()
+      createdAtMs,
+      ...(assessment ? { riskScore: assessment.score, riskReasons: assessment.reasons } : {}),
+      ...preview,
+      ...(timeoutMs !== undefined ? { expiresAtMs: createdAtMs + timeoutMs } : {}),
+      ...(needsQuorum && match.quorum ? { quorum: { ...match.quorum, approvedBy: [] } } : {}),
+      ...(exceeded ? { budgetExceeded: exceeded.budget } : {}),
+      ...(secretDetections.length > 0 ? { secretDetections } : {}),
+      ...(call.context !== undefined ? { context: call.context } : {})
     };
 
     opts.logger?.info("mcp_approval_requested", {
       traceId,
       toolName: call.toolName,
-      risk: match.risk
+      risk: match.risk,
+      riskScore: assessment?.score,
+      agentName: call.context?.agentName
+    });
+    await audit({
+      kind: "requested",
+      traceId,
+      toolName: call.toolName,
+      summary: req.summary,
+      risk: match.risk,
+      ...(assessment ? { riskScore: assessment.score, riskReasons: assessment.reasons } : {}),
+      displayArgs,
+      matchedRule: match.matchedRule,
+      ...(req.budgetExceeded !== undefined ? { budgetExceeded: req.budgetExceeded } : {}),
+      ...(call.context !== undefined ? { context: call.context } : {}),
+      atMs: createdAtMs
     });
 
-    const decision = await opts.handraise.requestApproval(req);
+    let decision = await requestDecision(req, match, timeoutMs, signal);
     assertValidDecision(decision);
 
+    // Approvers edit `displayArgs`, so placeholders they left alone stand for the real values.
+    if (decision.decision === "approve" && decision.overrideArgs !== undefined) {
+      const restored = restoreArgPlaceholders(decision.overrideArgs, placeholders);
+      if (restored.issues.length > 0) {
+        const { issues } = restored;
+        opts.logger?.warn("mcp_approval_override_invalid", { traceId, toolName: call.toolName, issues });
+        throw new McpApprovalArgsValidationError({ traceId, toolName: call.toolName, issues });
+      }
+      decision = { ...decision, overrideArgs: restored.args };
+    }
+
+    if (decision.decision === "approve" && decision.overrideArgs !== undefined && match.argsSchema) {
+      const issues = validateToolArgs(match.argsSchema, decision.overrideArgs);
+      if (issues.length > 0) {
+        opts.logger?.warn("mcp_approval_override_invalid", { traceId, toolName: call.toolName, issues });
+        throw new McpApprovalArgsValidationError({ traceId, toolName: call.toolName, issues });
+      }
+    }
+
+    const decidedAtMs = nowMs();
+    await audit({
+      kind: "decided",
+      traceId,
+      toolName: call.toolName,
+      decision: decision.decision,
+      ...(decision.decision === "deny" && decision.reason !== undefined ? { reason: decision.reason } : {}),
+      ...(decision.approver !== undefined ? { approver: decision.approver } : {}),
+      ...(decision.decision === "approve" && decision.scope !== undefined ? { scope: decision.scope } : {}),
+      ...(decision.decision === "approve" && decision.overrideArgs !== undefined
+        ? { overrideArgs: prepareArgsForDisplay(decision.overrideArgs, match.argDisplay) }
+        : {}),
+      atMs: decidedAtMs,
+      waitedMs: decidedAtMs - createdAtMs
+    });
+
     if (decision.decision === "deny") {
       opts.logger?.warn("mcp_approval_denied", {
         traceId,
         toolName: call.toolName,
-        reason: decision.reason
+        reason: decision.reason,
+        approver: decision.approver?.id
       });
       throw new McpHumanApprovalDeniedError({
         traceId,
@@ -82,18 +345,439 @@ export function createMcpHumanInLoopGate(opts: McpHumanInLoopGateOptions) {
 
     opts.logger?.info("mcp_approval_approved", {
       traceId,
-      toolName: call.toolName
+      toolName: call.toolName,
+      approver: decision.approver?.id
     });
 
     const args = decision.overrideArgs ?? call.args;
-    return executor({ ...call, args });
+    // A grant must not cover the args the approver edited away: `toolArgs`
+    // grants are keyed to the args that run, and wider grants are refused.
+    const edited = decision.overrideArgs !== undefined && fingerprintArgs(args) !== fingerprintArgs(call.args);
+    const widens = decision.scope?.kind === "tool" || decision.scope?.kind === "always";
+    if (decision.scope && !needsQuorum && edited && widens) {
+      opts.logger?.warn("mcp_approval_grant_skipped", {
+        traceId,
+        toolName: call.toolName,
+        scope: decision.scope.kind,
+        reason: "args_edited"
+      });
+    } else if (decision.scope && !needsQuorum) {
+      const created = createApprovalGrant({
+        id: randomUUID(),
+        traceId,
+        call: { ...call, args },
+        scope: decision.scope,
+        nowMs: nowMs()
+      });
+      if (created) {
+        await grants.add(created);
+        opts.logger?.info("mcp_approval_grant_created", {
+          grantId: created.id,
+          traceId,
+          toolName: call.toolName,
+          scope: created.scope,
+          expiresAtMs: created.expiresAtMs
+        });
+      }
+    }
+
+    return execute(traceId, { ...call, args }, match, executor, signal);
+  }
+
+  /**
+   * Holds a finished call's result until a human releases, redacts or
+   * withholds it. The reviewer sees a display copy; a redacted result is the
+   * real result with `[REDACTED]` at the chosen paths and nothing else changed.
+   */
+  async function reviewResult<TResult>(
+    traceId: string,
+    call: McpToolCall,
+    match: PolicyMatch,
+    display: ArgDisplayOptions,
+    result: TResult,
+    signal: AbortSignal | undefined
+  ): Promise<TResult> {
+    const displayResult = prepareArgsForDisplay(result, display);
+    const timeoutMs = match.approvalTimeoutMs ?? opts.approvalTimeoutMs;
+    const createdAtMs = nowMs();
+    opts.logger?.info("mcp_result_review_requested", { traceId, toolName: call.toolName });
+
+    let decision: McpResultReviewDecision;
+    if (!opts.handraise.reviewResult) {
+      decision = { decision: "withhold", reason: "No reviewer is configured for tool results." };
+    } else {
+      const reviewer = opts.handraise.reviewResult;
+      const reviewed = await askWithin(
+        (askSignal) =>
+          reviewer(
+            {
+              traceId,
+              toolName: call.toolName,
+              displayResult,
+              createdAtMs,
+              ...(timeoutMs !== undefined ? { expiresAtMs: createdAtMs + timeoutMs } : {}),
+              ...(call.context !== undefined ? { context: call.context } : {})
+            },
+            askSignal
+          ),
+        timeoutMs,
+        signal,
+        () => new McpHumanApprovalCancelledError({ traceId, toolName: call.toolName })
+      );
+      decision =
+        reviewed === TIMED_OUT
+          ? { decision: "withhold", reason: `No result review within ${timeoutMs}ms.` }
+          : reviewed;
+    }
+
+    // A redaction that would hide nothing must not release the result.
+    if (decision.decision === "redact") {
+      const problem = redactPathsProblem(result, decision.paths);
+      if (problem !== undefined) {
+        opts.logger?.warn("mcp_result_redaction_invalid", { traceId, toolName: call.toolName, paths: decision.paths });
+        decision = {
+          decision: "withhold",
+          reason: problem,
+          ...(decision.approver !== undefined ? { approver: decision.approver } : {})
+        };
+      }
+    }
+
+    await audit({
+      kind: "reviewed",
+      traceId,
+      toolName: call.toolName,
+      decision: decision.decision,
+      ...(decision.decision === "redact" && decision.paths !== undefined ? { paths: decision.paths } : {}),
+      ...(decision.decision === "withhold" && decision.reason !== undefined ? { reason: decision.reason } : {}),
+      ...(decision.approver !== undefined ? { approver: decision.approver } : {}),
+      atMs: nowMs()
+    });
+
+    switch (decision.decision) {
+      case "release":
+        opts.logger?.info("mcp_result_released", { traceId, toolName: call.toolName });
+        return result;
+      case "redact": {
+        opts.logger?.info("mcp_result_redacted", { traceId, toolName: call.toolName, paths: decision.paths });
+        return (decision.paths ?? []).reduce(
+          (value, path) => updateJsonPath(value, path, () => "[REDACTED]"),
+          result
+        );
+      }
+      case "withhold":
+        opts.logger?.warn("mcp_result_withheld", { traceId, toolName: call.toolName, reason: decision.reason });
+        throw new McpResultWithheldError({ traceId, toolName: call.toolName, reason: decision.reason });
+      default:
+        throw new McpHumanApprovalInvalidDecisionError();
+    }
+  }
+
+  async function runPreview(
+    traceId: string,
+    call: McpToolCall,
+    display: ArgDisplayOptions
+  ): Promise<Pick<McpApprovalRequest, "preview" | "previewError">> {
+    const rule = findMostSpecificToolEntry(opts.previews ?? [], call.toolName);
+    if (!rule) return {};
+
+    const previewTimeoutMs = opts.previewTimeoutMs ?? DEFAULT_PREVIEW_TIMEOUT_MS;
+    let previewError: string;
+    try {
+      const preview = await withTimeout(Promise.resolve(rule.preview(call)), previewTimeoutMs);
+      if (preview === undefined) return {};
+      if (preview !== TIMED_OUT) return { preview: redactApprovalPreview(preview, call.args, display) };
+      previewError = `Preview timed out after ${previewTimeoutMs}ms.`;
+    } catch (error: unknown) {
+      previewError = redactTextForDisplay(errorMessage(error), call.args, display);
+    }
+
+    opts.logger?.warn("mcp_approval_preview_failed", { traceId, toolName: call.toolName, error: previewError });
+    return { previewError };
+  }
+
+  async function requestDecision(
+    req: McpApprovalRequest,
+    match: PolicyMatch,
+    timeoutMs: number | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<McpApprovalDecision> {
+    const cancelled = () => new McpHumanApprovalCancelledError({ traceId: req.traceId, toolName: req.toolName });
+    let decision: McpApprovalDecision | typeof TIMED_OUT;
+    try {
+      decision = await askWithin(
+        (askSignal) =>
+          req.quorum
+            ? collectQuorumDecision(
+                req,
+                req.quorum,
+                [opts.handraise, ...(opts.approvers ?? [])],
+                opts.logger,
+                askSignal
+              )
+            : batcher
+              ? batcher.request(req, askSignal)
+              : opts.handraise.requestApproval(req, askSignal),
+        timeoutMs,
+        signal,
+        cancelled
+      );
+    } catch (error: unknown) {
+      if (error instanceof McpHumanApprovalCancelledError) {
+        opts.logger?.warn("mcp_approval_cancelled", { traceId: req.traceId, toolName: req.toolName });
+        await audit({ kind: "cancelled", traceId: req.traceId, toolName: req.toolName, atMs: nowMs() });
+      }
+      throw error;
+    }
+    if (decision !== TIMED_OUT) return decision;
+
+    const behavior = match.onApprovalTimeout ?? opts.onApprovalTimeout ?? "deny";
+    opts.logger?.warn("mcp_approval_timed_out", {
+      traceId: req.traceId,
+      toolName: req.toolName,
+      timeoutMs,
+      behavior
+    });
+    await audit({ kind: "timed_out", traceId: req.traceId, toolName: req.toolName, behavior, atMs: nowMs() });
+    const timeoutError = new McpHumanApprovalTimeoutError({
+      traceId: req.traceId,
+      toolName: req.toolName,
+      timeoutMs: timeoutMs ?? 0
+    });
+
+    if (behavior === "approveLowRisk" && req.risk === "low") return { decision: "approve" };
+
+    if (behavior === "escalate" && opts.escalation) {
+      const escalatedAtMs = nowMs();
+      const escalated: McpApprovalRequest = {
+        ...req,
+        createdAtMs: escalatedAtMs,
+        ...(timeoutMs !== undefined ? { expiresAtMs: escalatedAtMs + timeoutMs } : {})
+      };
+      opts.logger?.info("mcp_approval_escalated", { traceId: req.traceId, toolName: req.toolName });
+      const escalation = opts.escalation;
+      const escalatedDecision = await askWithin(
+        (askSignal) => escalation.requestApproval(escalated, askSignal),
+        timeoutMs,
+        signal,
+        cancelled
+      );
+      if (escalatedDecision !== TIMED_OUT) return escalatedDecision;
+    }
+
+    throw timeoutError;
+  }
+
+  async function listGrants(): Promise<McpApprovalGrant[]> {
+    return grants.list(nowMs());
+  }
+
+  async function revokeGrant(grantId: string): Promise<boolean> {
+    const revoked = await grants.revoke(grantId);
+    if (revoked) opts.logger?.info("mcp_approval_grant_revoked", { grantId });
+    return revoked;
   }
 
-  return { executeWithApproval };
+  return { executeWithApproval, listGrants, revokeGrant };
+}
+
+/**
+ * Raises the matched risk to the scored class, and requires approval when the
+ * score reaches the policy's `approvalScoreThreshold`.
+ */
+function applyRiskAssessment(match: PolicyMatch, assessment: McpRiskAssessment | undefined): PolicyMatch {
+  if (!assessment) return match;
+  const overThreshold =
+    match.approvalScoreThreshold !== undefined && assessment.score >= match.approvalScoreThreshold;
+  return {
+    ...match,
+    risk: maxRiskClass(match.risk, assessment.risk),
+    requireApproval: match.requireApproval || overThreshold
+  };
+}
+
+/**
+ * Asks every adapter in parallel, re-asking each one after it approves, until
+ * `quorum.required` distinct eligible approvers have approved or anyone denies.
+ * An adapter stops being asked once it returns an approval that adds no new
+ * approver; if every adapter stops short of the quorum, the call is denied.
+ * Approver-supplied `overrideArgs` must be identical across the quorum.
+ */
+function collectQuorumDecision(
+  req: McpApprovalRequest,
+  quorum: McpApprovalQuorum,
+  adapters: HandraiseAdapter[],
+  logger: McpHumanInLoopLogger | undefined,
+  signal: AbortSignal
+): Promise<McpApprovalDecision> {
+  const approvals = new Map<string, Extract<McpApprovalDecision, { decision: "approve" }>>();
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let active = adapters.length;
+
+    const settle = (decision: McpApprovalDecision) => {
+      if (settled) return;
+      settled = true;
+      resolve(decision);
+    };
+
+    const askUntilDone = async (adapter: HandraiseAdapter) => {
+      while (!settled && !signal.aborted) {
+        const decision = await adapter.requestApproval(
+          { ...req, quorum: { ...quorum, approvedBy: [...approvals.keys()] } },
+          signal
+        );
+        if (settled) return;
+        assertValidDecision(decision);
+
+        logger?.info("mcp_approval_vote", {
+          traceId: req.traceId,
+          toolName: req.toolName,
+          decision: decision.decision,
+          approver: decision.approver?.id
+        });
+
+        if (decision.decision === "deny") return settle(decision);
+
+        const approver = decision.approver;
+        if (!approver || approvals.has(approver.id) || !isEligibleApprover(approver, quorum)) {
+          logger?.warn("mcp_approval_vote_ignored", {
+            traceId: req.traceId,
+            toolName: req.toolName,
+            approver: approver?.id
+          });
+          return;
+        }
+
+        approvals.set(approver.id, decision);
+        if (approvals.size >= quorum.required) {
+          logger?.info("mcp_approval_quorum_reached", {
+            traceId: req.traceId,
+            toolName: req.toolName,
+            approvers: [...approvals.keys()]
+          });
+          return settle(mergeQuorumApprovals([...approvals.values()]));
+        }
+      }
+    };
+
+    for (const adapter of adapters) {
+      askUntilDone(adapter)
+        .catch((error: unknown) => {
+          if (settled) return;
+          settled = true;
+          reject(error);
+        })
+        .finally(() => {
+          active -= 1;
+          if (active > 0) return;
+          settle({
+            decision: "deny",
+            reason: `Approval quorum not reached (${approvals.size}/${quorum.required}).`
+          });
+        });
+    }
+  });
+}
+
+function isEligibleApprover(approver: McpApprover, quorum: McpApprovalQuorum): boolean {
+  if (!quorum.groups || quorum.groups.length === 0) return true;
+  return (approver.groups ?? []).some((group) => quorum.groups!.includes(group));
+}
+
+function mergeQuorumApprovals(
+  approvals: Array<Extract<McpApprovalDecision, { decision: "approve" }>>
+): McpApprovalDecision {
+  const overrides = approvals.filter((approval) => approval.overrideArgs !== undefined);
+  if (overrides.length === 0) return { decision: "approve" };
+
+  const fingerprint = fingerprintArgs(overrides[0]!.overrideArgs);
+  const consistent =
+    overrides.length === approvals.length &&
+    overrides.every((approval) => fingerprintArgs(approval.overrideArgs) === fingerprint);
+  if (!consistent) throw new McpHumanApprovalInvalidDecisionError();
+
+  return { decision: "approve", overrideArgs: overrides[0]!.overrideArgs };
+}
+
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number | undefined
+): Promise<T | typeof TIMED_OUT> {
+  if (timeoutMs === undefined) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs `ask` with its own signal, aborted once the answer is no longer
+ * wanted: on timeout, when `signal` aborts, or after it settles. Rejects with
+ * `cancelled()` as soon as `signal` aborts.
+ */
+async function askWithin<T>(
+  ask: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined,
+  cancelled: () => Error
+): Promise<T | typeof TIMED_OUT> {
+  if (signal?.aborted) throw cancelled();
+
+  const controller = new AbortController();
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_resolve, reject) => {
+    onAbort = () => reject(cancelled());
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    return await withTimeout(Promise.race([ask(controller.signal), aborted]), timeoutMs);
+  } finally {
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+    controller.abort();
+  }
 }
 
 function assertValidDecision(decision: McpApprovalDecision): void {
-  if (decision.decision === "approve") return;
+  if (decision.decision === "approve") {
+    assertValidScope(decision.scope);
+    return;
+  }
   if (decision.decision === "deny") return;
   throw new McpHumanApprovalInvalidDecisionError();
 }
+
+function assertValidScope(scope: McpApprovalScope | undefined): void {
+  if (scope === undefined) return;
+  switch (scope.kind) {
+    case "once":
+    case "toolArgs":
+    case "always":
+      return;
+    case "tool":
+      if (Number.isFinite(scope.durationMs) && scope.durationMs > 0) return;
+      break;
+  }
+  throw new McpHumanApprovalInvalidDecisionError();
+}
+
+/** Why a redact decision cannot be applied to `result`, if it cannot. */
+function redactPathsProblem(result: unknown, paths: string[] | undefined): string | undefined {
+  if (!paths || paths.length === 0) return "The redaction listed no JSON paths.";
+  for (const path of paths) {
+    try {
+      parseJsonPath(path);
+    } catch (error: unknown) {
+      return errorMessage(error);
+    }
+    if (selectJsonPath(result, path).length === 0) return `The redaction path '${path}' matches nothing in the result.`;
+  }
+  return undefined;
+}
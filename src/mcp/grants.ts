@@ -0,0 +1,136 @@
+import type { McpApprovalScope, McpCallerContext, McpToolCall, McpToolName } from "./types.js";
+
+export type McpApprovalGrantScope = Exclude<McpApprovalScope["kind"], "once">;
+
+export type McpApprovalGrant = {
+  id: string;
+  traceId: string;
+  toolName: McpToolName;
+  scope: McpApprovalGrantScope;
+  /** Set for `toolArgs` grants: the args the grant is limited to. */
+  argsFingerprint?: string;
+  /**
+   * The approved call's agent, session and workspace. The grant only covers
+   * calls with the same values, so one session's approval does not carry
+   * over to another.
+   */
+  context?: McpGrantContext;
+  createdAtMs: number;
+  /** Set for `tool` grants. */
+  expiresAtMs?: number;
+};
+
+export type McpGrantContext = Pick<McpCallerContext, "agentName" | "sessionId" | "workspace">;
+
+const GRANT_CONTEXT_FIELDS = ["agentName", "sessionId", "workspace"] as const;
+
+/**
+ * Where the gate keeps approval grants. Methods may return promises so a store
+ * can persist grants (for example `always` grants) outside the process.
+ */
+export type McpApprovalGrantStore = {
+  find: (call: McpToolCall, nowMs: number) => McpApprovalGrant | undefined | Promise<McpApprovalGrant | undefined>;
+  add: (grant: McpApprovalGrant) => void | Promise<void>;
+  revoke: (grantId: string) => boolean | Promise<boolean>;
+  list: (nowMs: number) => McpApprovalGrant[] | Promise<McpApprovalGrant[]>;
+};
+
+export function createInMemoryApprovalGrantStore(): McpApprovalGrantStore {
+  const grants = new Map<string, McpApprovalGrant>();
+
+  const prune = (nowMs: number) => {
+    for (const [id, grant] of grants) {
+      if (grant.expiresAtMs !== undefined && grant.expiresAtMs <= nowMs) grants.delete(id);
+    }
+  };
+
+  return {
+    find(call, nowMs) {
+      prune(nowMs);
+      let fingerprint: string | undefined;
+      for (const grant of grants.values()) {
+        if (grant.toolName !== call.toolName || !grantCoversContext(grant, call.context)) continue;
+        if (grant.scope !== "toolArgs") return grant;
+        fingerprint ??= fingerprintArgs(call.args);
+        if (grant.argsFingerprint === fingerprint) return grant;
+      }
+      return undefined;
+    },
+    add(grant) {
+      grants.set(grant.id, grant);
+    },
+    revoke(grantId) {
+      return grants.delete(grantId);
+    },
+    list(nowMs) {
+      prune(nowMs);
+      return [...grants.values()];
+    }
+  };
+}
+
+/**
+ * Builds the grant an approval scope implies, or `undefined` for `once`.
+ */
+export function createApprovalGrant(params: {
+  id: string;
+  traceId: string;
+  call: McpToolCall;
+  scope: McpApprovalScope;
+  nowMs: number;
+}): McpApprovalGrant | undefined {
+  const context = toGrantContext(params.call.context);
+  const base = {
+    id: params.id,
+    traceId: params.traceId,
+    toolName: params.call.toolName,
+    ...(context !== undefined ? { context } : {}),
+    createdAtMs: params.nowMs
+  };
+
+  switch (params.scope.kind) {
+    case "once":
+      return undefined;
+    case "tool":
+      return { ...base, scope: "tool", expiresAtMs: params.nowMs + params.scope.durationMs };
+    case "toolArgs":
+      return { ...base, scope: "toolArgs", argsFingerprint: fingerprintArgs(params.call.args) };
+    case "always":
+      return { ...base, scope: "always" };
+  }
+}
+
+/** Whether `context` has the agent, session and workspace the grant was made for. */
+export function grantCoversContext(grant: McpApprovalGrant, context: McpCallerContext | undefined): boolean {
+  return GRANT_CONTEXT_FIELDS.every((field) => grant.context?.[field] === context?.[field]);
+}
+
+function toGrantContext(context: McpCallerContext | undefined): McpGrantContext | undefined {
+  const picked: McpGrantContext = {};
+  for (const field of GRANT_CONTEXT_FIELDS) {
+    const value = context?.[field];
+    if (value !== undefined) picked[field] = value;
+  }
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+/**
+ * Stable JSON encoding of tool args (object keys sorted) used to compare calls.
+ */
+export function fingerprintArgs(args: unknown): string {
+  return JSON.stringify(sortKeys(args)) ?? "undefined";
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value !== "object" || value === null) return value;
+  const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+  if (typeof toJSON === "function") return sortKeys(toJSON.call(value));
+
+  const record = value as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(record).sort()) {
+    out[key] = sortKeys(record[key]);
+  }
+  return out;
+}
@@ -0,0 +1,154 @@
+import { JsonPathSyntaxError } from "./errors.js";
+import { createBoundedCache, isPlainObject } from "./util.js";
+
+export type JsonPathSegment =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" };
+
+const parsedCache = createBoundedCache<string, JsonPathSegment[]>(500);
+
+/**
+ * Parses a small JSON-path subset: `$`, `.key`, `.*`, `[0]`, `[*]` and
+ * `['key']` / `["key"]`.
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const cached = parsedCache.get(path);
+  if (cached) return cached;
+
+  const segments = parseUncached(path);
+  parsedCache.set(path, segments);
+  return segments;
+}
+
+export function selectJsonPath(root: unknown, path: string): unknown[] {
+  let current: unknown[] = [root];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      collectChildren(value, segment, next);
+    }
+    current = next;
+    if (current.length === 0) break;
+  }
+
+  return current;
+}
+
+/**
+ * Returns a copy of `root` with every value selected by `path` replaced by
+ * `replace(value)`. Containers off the path are shared, not copied. The copy
+ * is typed as `root`, so a replacement of another type is the caller's call.
+ */
+export function updateJsonPath<T>(root: T, path: string, replace: (value: unknown) => unknown): T {
+  return updateAt(root, parseJsonPath(path), 0, replace) as T;
+}
+
+function updateAt(
+  value: unknown,
+  segments: JsonPathSegment[],
+  depth: number,
+  replace: (value: unknown) => unknown
+): unknown {
+  const segment = segments[depth];
+  if (!segment) return replace(value);
+
+  const next = (child: unknown) => updateAt(child, segments, depth + 1, replace);
+  if (Array.isArray(value)) {
+    if (segment.kind === "wildcard") return value.map(next);
+    if (segment.kind === "index" && segment.index < value.length) {
+      return value.map((child, index) => (index === segment.index ? next(child) : child));
+    }
+    return value;
+  }
+  if (isPlainObject(value)) {
+    if (segment.kind === "wildcard") {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, next(child)]));
+    }
+    if (segment.kind === "key" && Object.prototype.hasOwnProperty.call(value, segment.key)) {
+      return { ...value, [segment.key]: next(value[segment.key]) };
+    }
+  }
+  return value;
+}
+
+function collectChildren(value: unknown, segment: JsonPathSegment, out: unknown[]): void {
+  if (segment.kind === "wildcard") {
+    if (Array.isArray(value)) {
+      out.push(...value);
+    } else if (isPlainObject(value)) {
+      out.push(...Object.values(value));
+    }
+    return;
+  }
+
+  if (segment.kind === "index") {
+    if (Array.isArray(value) && segment.index < value.length) out.push(value[segment.index]);
+    return;
+  }
+
+  if (isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, segment.key)) {
+    out.push(value[segment.key]);
+  }
+}
+
+function parseUncached(path: string): JsonPathSegment[] {
+  if (!path.startsWith("$")) {
+    throw new JsonPathSyntaxError({ path, position: 0, reason: "path must start with '$'" });
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let i = 1;
+
+  while (i < path.length) {
+    const char = path[i];
+
+    if (char === ".") {
+      i += 1;
+      if (path[i] === "*") {
+        segments.push({ kind: "wildcard" });
+        i += 1;
+        continue;
+      }
+      const start = i;
+      while (i < path.length && path[i] !== "." && path[i] !== "[") i += 1;
+      if (i === start) {
+        throw new JsonPathSyntaxError({ path, position: start, reason: "expected a key after '.'" });
+      }
+      segments.push({ kind: "key", key: path.slice(start, i) });
+      continue;
+    }
+
+    if (char === "[") {
+      const close = path.indexOf("]", i);
+      if (close < 0) {
+        throw new JsonPathSyntaxError({ path, position: i, reason: "unterminated '['" });
+      }
+      segments.push(parseBracket(path, i, path.slice(i + 1, close).trim()));
+      i = close + 1;
+      continue;
+    }
+
+    throw new JsonPathSyntaxError({ path, position: i, reason: `unexpected character '${char}'` });
+  }
+
+  return segments;
+}
+
+function parseBracket(path: string, position: number, inner: string): JsonPathSegment {
+  if (inner === "*") return { kind: "wildcard" };
+
+  if (/^\d+$/.test(inner)) return { kind: "index", index: Number.parseInt(inner, 10) };
+
+  const quote = inner[0];
+  if ((quote === "'" || quote === '"') && inner.length >= 2 && inner.endsWith(quote)) {
+    return { kind: "key", key: inner.slice(1, -1) };
+  }
+
+  throw new JsonPathSyntaxError({
+    path,
+    position,
+    reason: "brackets must hold an index, '*' or a quoted key"
+  });
+}
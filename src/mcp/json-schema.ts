@@ -0,0 +1,223 @@
+import { childPath, errorMessage, isPlainObject, jsonEquals } from "./util.js";
+
+/**
+ * The JSON Schema subset the gate understands: `type`, `enum`, `const`,
+ * `properties`, `required`, `additionalProperties`, `items`, `minItems`,
+ * `maxItems`, `minLength`, `maxLength`, `pattern`, `format`, `minimum`,
+ * `maximum`, `exclusiveMinimum`, `exclusiveMaximum`, `allOf`, `anyOf`,
+ * `oneOf` and `not`. Other keywords are ignored.
+ */
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  [keyword: string]: unknown;
+};
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export type JsonSchemaIssue = {
+  /** JSON path of the offending value, e.g. `$.files[2].path`. */
+  path: string;
+  message: string;
+};
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  "date-time": /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i,
+  uri: /^[a-z][a-z0-9+.-]*:[^\s]*$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+};
+
+export function validateJsonSchema(schema: JsonSchema, value: unknown): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  validateAt(schema, value, "$", issues);
+  return issues;
+}
+
+/** A `pattern` that does not compile, and the keywords leading to it. */
+export type JsonSchemaPatternIssue = {
+  keywordPath: Array<string | number>;
+  message: string;
+};
+
+/**
+ * Compiles every `pattern` in `schema` the way `validateJsonSchema` does, so
+ * a broken one is caught when the schema is loaded rather than on first use.
+ */
+export function findInvalidJsonSchemaPatterns(schema: unknown): JsonSchemaPatternIssue[] {
+  const issues: JsonSchemaPatternIssue[] = [];
+  collectPatternIssues(schema, [], issues);
+  return issues;
+}
+
+function collectPatternIssues(
+  schema: unknown,
+  keywordPath: Array<string | number>,
+  issues: JsonSchemaPatternIssue[]
+): void {
+  if (!isPlainObject(schema)) return;
+  if (typeof schema.pattern === "string") {
+    try {
+      new RegExp(schema.pattern, "u");
+    } catch (error: unknown) {
+      const message = errorMessage(error);
+      issues.push({ keywordPath: [...keywordPath, "pattern"], message });
+    }
+  }
+  if (isPlainObject(schema.properties)) {
+    for (const [key, child] of Object.entries(schema.properties)) {
+      collectPatternIssues(child, [...keywordPath, "properties", key], issues);
+    }
+  }
+  for (const keyword of ["additionalProperties", "items", "not"]) {
+    collectPatternIssues(schema[keyword], [...keywordPath, keyword], issues);
+  }
+  for (const keyword of ["allOf", "anyOf", "oneOf"]) {
+    const subschemas = schema[keyword];
+    if (!Array.isArray(subschemas)) continue;
+    subschemas.forEach((child, index) => collectPatternIssues(child, [...keywordPath, keyword, index], issues));
+  }
+}
+
+function validateAt(schema: JsonSchema, value: unknown, path: string, issues: JsonSchemaIssue[]): void {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      issues.push({ path, message: `expected ${types.join(" or ")}, got ${describeType(value)}` });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !jsonEquals(schema.const, value)) {
+    issues.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+  if (schema.enum !== undefined && !schema.enum.some((option) => jsonEquals(option, value))) {
+    issues.push({ path, message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}` });
+  }
+
+  if (typeof value === "string") validateString(schema, value, path, issues);
+  if (typeof value === "number") validateNumber(schema, value, path, issues);
+  if (Array.isArray(value)) validateArray(schema, value, path, issues);
+  if (isPlainObject(value)) validateObject(schema, value, path, issues);
+
+  for (const sub of schema.allOf ?? []) validateAt(sub, value, path, issues);
+  if (schema.anyOf && !schema.anyOf.some((sub) => validateJsonSchema(sub, value).length === 0)) {
+    issues.push({ path, message: "does not match any of the allowed schemas" });
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((sub) => validateJsonSchema(sub, value).length === 0).length;
+    if (matches !== 1) issues.push({ path, message: `must match exactly one schema, matched ${matches}` });
+  }
+  if (schema.not && validateJsonSchema(schema.not, value).length === 0) {
+    issues.push({ path, message: "matches a schema it must not match" });
+  }
+}
+
+function validateString(schema: JsonSchema, value: string, path: string, issues: JsonSchemaIssue[]): void {
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+    issues.push({ path, message: `must match /${schema.pattern}/` });
+  }
+  const format = schema.format !== undefined ? FORMAT_PATTERNS[schema.format] : undefined;
+  if (format && (!format.test(value) || (schema.format?.startsWith("date") && Number.isNaN(Date.parse(value))))) {
+    issues.push({ path, message: `must be a valid ${schema.format}` });
+  }
+}
+
+function validateNumber(schema: JsonSchema, value: number, path: string, issues: JsonSchemaIssue[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    issues.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    issues.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    issues.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+  }
+}
+
+function validateArray(schema: JsonSchema, value: unknown[], path: string, issues: JsonSchemaIssue[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    issues.push({ path, message: `must have at least ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+  }
+  if (schema.items) {
+    value.forEach((item, index) => validateAt(schema.items!, item, `${path}[${index}]`, issues));
+  }
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  issues: JsonSchemaIssue[]
+): void {
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) issues.push({ path: childPath(path, key), message: "is required" });
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const propertySchema = schema.properties?.[key];
+    if (propertySchema) {
+      validateAt(propertySchema, child, childPath(path, key), issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: childPath(path, key), message: "is not allowed" });
+    } else if (typeof schema.additionalProperties === "object") {
+      validateAt(schema.additionalProperties, child, childPath(path, key), issues);
+    }
+  }
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
@@ -0,0 +1,183 @@
+import process from "node:process";
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+
+import { McpPolicyLoadError } from "./errors.js";
+import { loadMcpApprovalPolicy } from "./policy-loader.js";
+import { explainPolicyMatch, replayPolicyCalls } from "./policy-explain.js";
+import type { McpCallerContext } from "./types.js";
+import { errorMessage } from "./util.js";
+
+const USAGE = [
+  "Usage:",
+  "  handraise-policy explain <tool> [--args <json> | --args-file <path>] [--context <json>] [--policy <path>] [--profile <name>] [--json]",
+  "  handraise-policy replay <calls.jsonl> [--policy <path>] [--profile <name>] [--json]",
+  "The policy is loaded like the gate loads it: --policy, else HANDRAISE_POLICY_PATH, else .handraise/policy.*"
+].join("\n");
+
+export async function runPolicyCli(argv: string[] = process.argv.slice(2)): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        args: { type: "string" },
+        "args-file": { type: "string" },
+        context: { type: "string" },
+        policy: { type: "string" },
+        profile: { type: "string" },
+        json: { type: "boolean" }
+      }
+    });
+  } catch (error: unknown) {
+    console.error(`${errorMessage(error)}\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, target] = positionals;
+  if ((command !== "explain" && command !== "replay") || !target || positionals.length > 2) {
+    console.error(USAGE);
+    return 2;
+  }
+  if (values.args !== undefined && values["args-file"] !== undefined) {
+    console.error(`Pass either --args or --args-file, not both.\n${USAGE}`);
+    return 2;
+  }
+
+  let loaded;
+  try {
+    loaded = await loadMcpApprovalPolicy({
+      ...(values.policy !== undefined ? { path: values.policy } : {}),
+      ...(values.profile !== undefined ? { profile: values.profile } : {})
+    });
+  } catch (error: unknown) {
+    if (!(error instanceof McpPolicyLoadError)) throw error;
+    console.error(error.message);
+    return 1;
+  }
+  const source = `${loaded.sourcePath ?? "built-in defaults"}${loaded.profile ? ` (profile ${loaded.profile})` : ""}`;
+
+  if (command === "explain") {
+    let args: unknown = {};
+    const argsFile = values["args-file"];
+    const rawArgs = argsFile !== undefined ? await readInput(argsFile) : values.args;
+    if (rawArgs === null) return 2;
+    if (rawArgs !== undefined) {
+      try {
+        args = JSON.parse(rawArgs);
+      } catch (error: unknown) {
+        console.error(`Tool args are not valid JSON: ${errorMessage(error)}`);
+        return 2;
+      }
+    }
+
+    let context: McpCallerContext | undefined;
+    if (values.context !== undefined) {
+      try {
+        context = JSON.parse(values.context) as McpCallerContext;
+      } catch (error: unknown) {
+        console.error(`Caller context is not valid JSON: ${errorMessage(error)}`);
+        return 2;
+      }
+    }
+
+    const explanation = explainPolicyMatch(loaded.policy, {
+      toolName: target,
+      args,
+      ...(context !== undefined ? { context } : {})
+    });
+    const { match } = explanation;
+    const details = {
+      ...(match.approvalTimeoutMs !== undefined ? { approvalTimeoutMs: match.approvalTimeoutMs } : {}),
+      ...(match.onApprovalTimeout !== undefined ? { onApprovalTimeout: match.onApprovalTimeout } : {}),
+      ...(match.quorum !== undefined ? { quorum: match.quorum } : {}),
+      ...(match.rateLimit !== undefined ? { rateLimit: match.rateLimit } : {}),
+      ...(match.approvalScoreThreshold !== undefined ? { approvalScoreThreshold: match.approvalScoreThreshold } : {}),
+      ...(match.argsSchema !== undefined ? { argsSchema: true } : {}),
+      ...(match.resultReview !== undefined ? { reviewResult: true } : {})
+    };
+
+    if (values.json) {
+      console.log(
+        JSON.stringify(
+          {
+            policy: source,
+            toolName: target,
+            rule: explanation.rule,
+            matchedRule: match.matchedRule,
+            requireApproval: match.requireApproval,
+            risk: match.risk,
+            ...details,
+            argDisplay: match.argDisplay,
+            displayArgs: explanation.displayArgs
+          },
+          null,
+          2
+        )
+      );
+      return 0;
+    }
+
+    console.log(`Policy: ${source}`);
+    console.log(`Tool: ${target}`);
+    console.log(`Matched rule: ${explanation.rule}`);
+    console.log(`requireApproval: ${match.requireApproval}`);
+    console.log(`risk: ${match.risk}`);
+    for (const [key, value] of Object.entries(details)) console.log(`${key}: ${JSON.stringify(value)}`);
+    console.log(`argDisplay: ${JSON.stringify(match.argDisplay)}`);
+    console.log("displayArgs:");
+    console.log(JSON.stringify(explanation.displayArgs, null, 2));
+    return 0;
+  }
+
+  const calls = await readInput(target);
+  if (calls === null) return 2;
+  const report = replayPolicyCalls(loaded.policy, calls);
+  if (values.json) {
+    console.log(JSON.stringify({ policy: source, ...report }, null, 2));
+    return report.issues.length > 0 ? 1 : 0;
+  }
+
+  const percent = report.calls > 0 ? Math.round((report.prompts / report.calls) * 100) : 0;
+  console.log(`Policy: ${source}`);
+  console.log(
+    `Replayed ${report.calls} call(s) from ${target}: ${report.prompts} would prompt (${percent}%), ` +
+      `${report.calls - report.prompts} would run without approval.`
+  );
+  if (report.tools.length > 0) {
+    const width = Math.max(4, ...report.tools.map((tool) => tool.toolName.length));
+    console.log(`\n  ${"calls".padStart(6)} ${"prompts".padStart(8)}  ${"tool".padEnd(width)}  rule`);
+    for (const tool of report.tools) {
+      console.log(
+        `  ${String(tool.calls).padStart(6)} ${String(tool.prompts).padStart(8)}  ${tool.toolName.padEnd(width)}  ${tool.rules.join(", ")}`
+      );
+    }
+  }
+  for (const issue of report.issues) console.error(`line ${issue.line}: ${issue.message}`);
+  return report.issues.length > 0 ? 1 : 0;
+}
+
+/** The file's text, or `null` after reporting why it could not be read. */
+async function readInput(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error: unknown) {
+    console.error(`Cannot read ${filePath}: ${errorMessage(error)}\n${USAGE}`);
+    return null;
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPolicyCli().then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error: unknown) => {
+      const message = error instanceof Error ? error.stack ?? error.message : String(error);
+      console.error(message);
+      process.exitCode = 1;
+    }
+  );
+}
@@ -0,0 +1,124 @@
+import type { McpApprovalPolicy, PolicyMatch, PolicyMatchedRule } from "./policy.js";
+import { matchPolicy } from "./policy.js";
+import { inspectArgsForDisplay } from "./redaction.js";
+import type { McpCallerContext, McpToolCall, McpToolName } from "./types.js";
+import { errorMessage } from "./util.js";
+
+export type McpPolicyExplanation = {
+  call: McpToolCall;
+  match: PolicyMatch;
+  /** The matched rule as text, e.g. `tools[2] "fs.*" (conditions[0])`. */
+  rule: string;
+  /** The args exactly as an approver would see them, placeholders included. */
+  displayArgs: unknown;
+};
+
+export type McpPolicyReplayIssue = {
+  /** 1-based line in the replayed file. */
+  line: number;
+  message: string;
+};
+
+export type McpPolicyReplayToolSummary = {
+  toolName: McpToolName;
+  calls: number;
+  /** Calls that would ask a human. */
+  prompts: number;
+  /** Every rule that matched a call to this tool. */
+  rules: string[];
+};
+
+export type McpPolicyReplayReport = {
+  calls: number;
+  prompts: number;
+  /** Sorted by number of calls, most first. */
+  tools: McpPolicyReplayToolSummary[];
+  issues: McpPolicyReplayIssue[];
+};
+
+/**
+ * Shows why `matchPolicy` treats a call the way it does. Risk scoring and
+ * budgets are applied by the gate and are not part of the explanation.
+ */
+export function explainPolicyMatch(policy: McpApprovalPolicy, call: McpToolCall): McpPolicyExplanation {
+  const match = matchPolicy(policy, call);
+  return {
+    call,
+    match,
+    rule: formatPolicyMatchedRule(match.matchedRule, policy),
+    displayArgs: inspectArgsForDisplay(call.args, match.argDisplay, { placeholders: true }).displayArgs
+  };
+}
+
+export function formatPolicyMatchedRule(rule: PolicyMatchedRule, policy?: McpApprovalPolicy): string {
+  if (rule.source === "default") {
+    return policy ? `default (defaultRequireApproval: ${policy.defaultRequireApproval})` : "default";
+  }
+  const condition = rule.conditionIndex !== undefined ? ` (conditions[${rule.conditionIndex}])` : "";
+  return `${rule.source}[${rule.index}] ${JSON.stringify(rule.pattern)}${condition}`;
+}
+
+/**
+ * Matches every call in a JSONL file against the policy. Each line is an
+ * object with `toolName` and `args`, or an MCP `tools/call` params object
+ * with `name` and `arguments`, and optionally a caller `context`. Blank
+ * lines are skipped; unreadable lines are reported as issues.
+ */
+export function replayPolicyCalls(policy: McpApprovalPolicy, jsonl: string): McpPolicyReplayReport {
+  const tools = new Map<McpToolName, McpPolicyReplayToolSummary>();
+  const issues: McpPolicyReplayIssue[] = [];
+  let calls = 0;
+  let prompts = 0;
+
+  for (const [index, text] of jsonl.split("\n").entries()) {
+    if (text.trim().length === 0) continue;
+    const line = index + 1;
+    const call = parseRecordedCall(text);
+    if (typeof call === "string") {
+      issues.push({ line, message: call });
+      continue;
+    }
+
+    const match = matchPolicy(policy, call);
+    const rule = formatPolicyMatchedRule(match.matchedRule, policy);
+    const summary = tools.get(call.toolName) ?? { toolName: call.toolName, calls: 0, prompts: 0, rules: [] };
+    summary.calls += 1;
+    if (match.requireApproval) summary.prompts += 1;
+    if (!summary.rules.includes(rule)) summary.rules.push(rule);
+    tools.set(call.toolName, summary);
+
+    calls += 1;
+    if (match.requireApproval) prompts += 1;
+  }
+
+  return {
+    calls,
+    prompts,
+    tools: [...tools.values()].sort((a, b) => b.calls - a.calls || a.toolName.localeCompare(b.toolName)),
+    issues
+  };
+}
+
+/** Returns the call, or a message saying why the line is not one. */
+function parseRecordedCall(text: string): McpToolCall | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: unknown) {
+    return `not valid JSON: ${errorMessage(error)}`;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return "expected a JSON object";
+
+  const record = parsed as Record<string, unknown>;
+  const toolName = record.toolName ?? record.name;
+  if (typeof toolName !== "string" || toolName.length === 0) return "missing toolName";
+  const context = record.context;
+  if (context !== undefined && (typeof context !== "object" || context === null || Array.isArray(context))) {
+    return "context must be an object";
+  }
+  return {
+    toolName,
+    args: record.args ?? record.arguments ?? {},
+    ...(context !== undefined ? { context: context as McpCallerContext } : {})
+  };
+}
@@ -0,0 +1,609 @@
+import { watch, type FSWatcher } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { isNode, LineCounter, parseDocument, type Document } from "yaml";
+import { z } from "zod";
+
+import { McpPolicyLoadError, McpPolicyProfileError, type McpPolicyLoadIssue } from "./errors.js";
+import { parseJsonPath } from "./json-path.js";
+import { findInvalidJsonSchemaPatterns } from "./json-schema.js";
+import type { McpApprovalPolicy } from "./policy.js";
+import { defaultMcpApprovalPolicy } from "./policy.js";
+import { resolvePolicyProfile } from "./policy-profiles.js";
+import { SECRET_DETECTORS, type SecretDetectorName } from "./secret-detectors.js";
+import { compileToolPattern } from "./tool-pattern.js";
+import type { McpHumanInLoopLogger } from "./types.js";
+import { errorMessage } from "./util.js";
+
+export const DEFAULT_POLICY_PATHS = [
+  ".handraise/policy.json",
+  ".handraise/policy.yaml",
+  ".handraise/policy.yml"
+];
+
+const ENV_SOURCE = "environment";
+const RELOAD_DEBOUNCE_MS = 100;
+
+const ToolPatternSchema = z.string().min(1).superRefine((value, ctx) => {
+  try {
+    compileToolPattern(value);
+  } catch (error: unknown) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: errorMessage(error) });
+  }
+});
+
+const JsonPathSchema = z.string().superRefine((value, ctx) => {
+  try {
+    parseJsonPath(value);
+  } catch (error: unknown) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: errorMessage(error) });
+  }
+});
+
+const RegexSourceSchema = z.string().superRefine((value, ctx) => {
+  try {
+    new RegExp(value);
+  } catch (error: unknown) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: errorMessage(error) });
+  }
+});
+
+const ArgsSchemaSchema = z.record(z.unknown()).superRefine((schema, ctx) => {
+  for (const issue of findInvalidJsonSchemaPatterns(schema)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.keywordPath, message: issue.message });
+  }
+});
+
+const RiskSchema = z.enum(["low", "medium", "high"]);
+
+const RedactionModeSchema = z.enum(["replace", "drop", "fingerprint"]);
+
+const ArgRedactionRuleSchema = z.discriminatedUnion("kind", [
+  z
+    .object({
+      kind: z.literal("redactKey"),
+      key: z.string().min(1),
+      replacement: z.string().optional(),
+      mode: RedactionModeSchema.optional()
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("redactKeyIgnoreCase"),
+      key: z.string().min(1),
+      replacement: z.string().optional(),
+      mode: RedactionModeSchema.optional()
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("redactKeyPattern"),
+      pattern: RegexSourceSchema,
+      flags: z.string().regex(/^[dimsuv]*$/).optional(),
+      replacement: z.string().optional(),
+      mode: RedactionModeSchema.optional()
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("redactPath"),
+      path: JsonPathSchema,
+      replacement: z.string().optional(),
+      mode: RedactionModeSchema.optional()
+    })
+    .strict(),
+  z.object({ kind: z.literal("truncateString"), maxLen: z.number().int().nonnegative() }).strict(),
+  z
+    .object({
+      kind: z.literal("detectSecrets"),
+      detectors: z.array(z.enum(SECRET_DETECTORS as [SecretDetectorName, ...SecretDetectorName[]])).optional(),
+      replacement: z.string().optional()
+    })
+    .strict()
+]);
+
+const ArgDisplaySchema = z
+  .object({
+    maxDepth: z.number().int().nonnegative(),
+    maxStringLen: z.number().int().nonnegative(),
+    maxArrayLen: z.number().int().nonnegative(),
+    maxObjectKeys: z.number().int().nonnegative(),
+    maxTotalBytes: z.number().int().nonnegative(),
+    binaryPreview: z.enum(["hex", "base64"]),
+    rules: z.array(ArgRedactionRuleSchema),
+    replaceRules: z.boolean()
+  })
+  .partial()
+  .strict();
+
+const ArgConditionSchema: z.ZodTypeAny = z.lazy(() =>
+  z.discriminatedUnion("kind", [
+    z.object({ kind: z.literal("equals"), path: JsonPathSchema, value: z.unknown() }).strict(),
+    z
+      .object({
+        kind: z.literal("matches"),
+        path: JsonPathSchema,
+        pattern: RegexSourceSchema,
+        flags: z.string().regex(/^[dimsuv]*$/).optional()
+      })
+      .strict(),
+    z
+      .object({
+        kind: z.literal("compare"),
+        path: JsonPathSchema,
+        op: z.enum(["lt", "lte", "gt", "gte"]),
+        value: z.number()
+      })
+      .strict(),
+    z.object({ kind: z.literal("all"), conditions: z.array(ArgConditionSchema) }).strict(),
+    z.object({ kind: z.literal("any"), conditions: z.array(ArgConditionSchema) }).strict(),
+    z.object({ kind: z.literal("not"), condition: ArgConditionSchema }).strict()
+  ])
+);
+
+const CallBudgetExceededBehaviorSchema = z.enum(["requireApproval", "fail"]);
+
+const CallerContextMatchSchema = z
+  .object({
+    agentName: ToolPatternSchema.optional(),
+    agentVersion: ToolPatternSchema.optional(),
+    sessionId: ToolPatternSchema.optional(),
+    workspace: ToolPatternSchema.optional(),
+    gitBranch: ToolPatternSchema.optional(),
+    parentTraceId: ToolPatternSchema.optional()
+  })
+  .strict();
+
+const ToolRuleSchema = z
+  .object({
+    toolName: ToolPatternSchema,
+    context: CallerContextMatchSchema.optional(),
+    requireApproval: z.boolean().optional(),
+    risk: RiskSchema.optional(),
+    argDisplay: ArgDisplaySchema.optional(),
+    conditions: z
+      .array(
+        z
+          .object({
+            when: ArgConditionSchema,
+            requireApproval: z.boolean().optional(),
+            risk: RiskSchema.optional(),
+            argDisplay: ArgDisplaySchema.optional()
+          })
+          .strict()
+      )
+      .optional(),
+    approvalTimeoutMs: z.number().int().positive().optional(),
+    onApprovalTimeout: z.enum(["deny", "approveLowRisk", "escalate"]).optional(),
+    quorum: z
+      .object({
+        required: z.number().int().positive(),
+        groups: z.array(z.string().min(1)).optional()
+      })
+      .strict()
+      .optional(),
+    rateLimit: z
+      .object({
+        maxCalls: z.number().int().nonnegative(),
+        windowMs: z.number().int().positive(),
+        onExceeded: CallBudgetExceededBehaviorSchema.optional()
+      })
+      .strict()
+      .optional(),
+    approvalScoreThreshold: z.number().min(0).max(100).optional(),
+    argsSchema: ArgsSchemaSchema.optional(),
+    reviewResult: z.union([z.boolean(), z.object({ display: ArgDisplaySchema.optional() }).strict()]).optional()
+  })
+  .strict();
+
+const PolicyLayerShape = {
+  defaultRequireApproval: z.boolean().optional(),
+  allowlist: z.array(ToolPatternSchema).optional(),
+  denylist: z.array(ToolPatternSchema).optional(),
+  tools: z.array(ToolRuleSchema).optional(),
+  sessionBudget: z
+    .object({
+      maxCalls: z.number().int().nonnegative(),
+      onExceeded: CallBudgetExceededBehaviorSchema.optional()
+    })
+    .strict()
+    .optional(),
+  approvalScoreThreshold: z.number().min(0).max(100).optional()
+};
+
+// In profiles, `!pattern` removes an inherited pattern.
+const ProfilePatternSchema = z
+  .string()
+  .min(1)
+  .superRefine((value, ctx) => {
+    try {
+      compileToolPattern(value.startsWith("!") ? value.slice(1) : value);
+    } catch (error: unknown) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: errorMessage(error) });
+    }
+  });
+
+const PolicyProfileSchema = z
+  .object({
+    ...PolicyLayerShape,
+    allowlist: z.array(ProfilePatternSchema).optional(),
+    denylist: z.array(ProfilePatternSchema).optional(),
+    extends: z.string().min(1).optional()
+  })
+  .strict();
+
+export const McpApprovalPolicyFileSchema = z
+  .object({
+    ...PolicyLayerShape,
+    profiles: z.record(PolicyProfileSchema).optional(),
+    profile: z.string().min(1).optional()
+  })
+  .strict();
+
+export type McpApprovalPolicyFile = Partial<McpApprovalPolicy>;
+
+export type McpApprovalPolicyEnv = {
+  defaultRequireApproval?: boolean;
+  allowlist: string[];
+  denylist: string[];
+  profile?: string;
+};
+
+export type LoadMcpApprovalPolicyOptions = {
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  /** Explicit file path; takes precedence over `HANDRAISE_POLICY_PATH`. */
+  path?: string;
+  /** Profile to apply; takes precedence over `HANDRAISE_POLICY_PROFILE` and the file's `profile`. */
+  profile?: string;
+};
+
+export type LoadedMcpApprovalPolicy = {
+  /** The effective policy, with the selected profile already applied. */
+  policy: McpApprovalPolicy;
+  sourcePath: string | undefined;
+  profile?: string;
+};
+
+export type McpApprovalPolicyWatcher = {
+  /** The policy file, once one exists. */
+  readonly sourcePath: string | undefined;
+  current: () => McpApprovalPolicy;
+  close: () => void;
+};
+
+/**
+ * Builds the effective policy from three layers, later layers winning:
+ *
+ * 1. `defaultMcpApprovalPolicy()`
+ * 2. The policy file (`path`, else `HANDRAISE_POLICY_PATH`, else the first
+ *    existing entry of `DEFAULT_POLICY_PATHS` under `cwd`), with the profile
+ *    from `profile`, else `HANDRAISE_POLICY_PROFILE`, else the file's
+ *    `profile` resolved by `resolvePolicyProfile`
+ * 3. `HANDRAISE_DEFAULT_REQUIRE_APPROVAL` replaces `defaultRequireApproval`;
+ *    `HANDRAISE_ALLOWLIST` / `HANDRAISE_DENYLIST` entries are appended to the
+ *    file's lists
+ */
+export async function loadMcpApprovalPolicy(
+  opts: LoadMcpApprovalPolicyOptions = {}
+): Promise<LoadedMcpApprovalPolicy> {
+  const env = opts.env ?? process.env;
+  const envLayer = readPolicyEnv(env);
+  const sourcePath = await resolveMcpApprovalPolicyPath(opts);
+
+  let fileLayer: McpApprovalPolicyFile = {};
+  if (sourcePath) {
+    let text: string;
+    try {
+      text = await readFile(sourcePath, "utf8");
+    } catch (error: unknown) {
+      throw new McpPolicyLoadError({
+        source: sourcePath,
+        issues: [{ path: "", message: errorMessage(error) }]
+      });
+    }
+    fileLayer = parseMcpApprovalPolicyFile(text, sourcePath);
+  }
+
+  const source = sourcePath ?? ENV_SOURCE;
+  const filePolicy = mergeFileLayer(defaultMcpApprovalPolicy(), fileLayer);
+  const profileIssues = Object.keys(filePolicy.profiles ?? {}).flatMap((name) =>
+    profileIssue(filePolicy, name, `profiles.${name}.extends`)
+  );
+  if (profileIssues.length > 0) throw new McpPolicyLoadError({ source, issues: profileIssues });
+
+  const explicitProfile = opts.profile?.trim();
+  const profile = explicitProfile || envLayer.profile || fileLayer.profile;
+  if (profile) {
+    const issuePath = explicitProfile ? "profile" : envLayer.profile ? "HANDRAISE_POLICY_PROFILE" : "profile";
+    const issues = profileIssue(filePolicy, profile, issuePath);
+    if (issues.length > 0) throw new McpPolicyLoadError({ source, issues });
+  }
+
+  return {
+    policy: mergeEnvLayer(resolvePolicyProfile(filePolicy, profile || undefined), envLayer),
+    sourcePath,
+    ...(profile ? { profile } : {})
+  };
+}
+
+export async function resolveMcpApprovalPolicyPath(
+  opts: LoadMcpApprovalPolicyOptions = {}
+): Promise<string | undefined> {
+  const env = opts.env ?? process.env;
+  const cwd = opts.cwd ?? process.cwd();
+
+  const explicit = opts.path?.trim() || env.HANDRAISE_POLICY_PATH?.trim();
+  if (explicit) return path.resolve(cwd, explicit);
+
+  for (const candidate of DEFAULT_POLICY_PATHS) {
+    const fullPath = path.resolve(cwd, candidate);
+    if (await isFile(fullPath)) return fullPath;
+  }
+  return undefined;
+}
+
+/**
+ * Parses a JSON or YAML policy file. JSON is read through the YAML parser so
+ * both formats report issues with line and column numbers.
+ */
+export function parseMcpApprovalPolicyFile(text: string, source: string): McpApprovalPolicyFile {
+  const data = parseHandraiseConfigFile(
+    text,
+    McpApprovalPolicyFileSchema,
+    (issues) => new McpPolicyLoadError({ source, issues })
+  );
+  return data as McpApprovalPolicyFile;
+}
+
+/**
+ * Parses JSON or YAML text and validates it with `schema`. Syntax and schema
+ * problems are collected as located issues and thrown via `toError`.
+ */
+export function parseHandraiseConfigFile<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  toError: (issues: McpPolicyLoadIssue[]) => Error
+): T {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    throw toError(
+      doc.errors.map((error) => ({
+        path: "",
+        message: error.message,
+        ...toLineColumn(lineCounter, error.pos[0])
+      }))
+    );
+  }
+
+  const raw: unknown = doc.toJS() ?? {};
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw toError(
+      parsed.error.issues.map((issue) => ({
+        path: formatIssuePath(issue.path),
+        message: issue.message,
+        ...locateIssue(doc, lineCounter, issue.path)
+      }))
+    );
+  }
+
+  return parsed.data;
+}
+
+export function readPolicyEnv(env: NodeJS.ProcessEnv = process.env): McpApprovalPolicyEnv {
+  const issues: McpPolicyLoadIssue[] = [];
+  const out: McpApprovalPolicyEnv = {
+    allowlist: readPatternList(env, "HANDRAISE_ALLOWLIST", issues),
+    denylist: readPatternList(env, "HANDRAISE_DENYLIST", issues)
+  };
+
+  const rawDefault = env.HANDRAISE_DEFAULT_REQUIRE_APPROVAL?.trim().toLowerCase();
+  if (rawDefault) {
+    if (["true", "1", "yes", "on"].includes(rawDefault)) {
+      out.defaultRequireApproval = true;
+    } else if (["false", "0", "no", "off"].includes(rawDefault)) {
+      out.defaultRequireApproval = false;
+    } else {
+      issues.push({
+        path: "HANDRAISE_DEFAULT_REQUIRE_APPROVAL",
+        message: `expected true or false, got '${rawDefault}'`
+      });
+    }
+  }
+
+  const profile = env.HANDRAISE_POLICY_PROFILE?.trim();
+  if (profile) out.profile = profile;
+
+  if (issues.length > 0) throw new McpPolicyLoadError({ source: ENV_SOURCE, issues });
+  return out;
+}
+
+/**
+ * Loads the policy once, then reloads it whenever the policy file changes.
+ * A reload that fails validation is logged and the previous policy is kept.
+ * Without a policy file, it waits for one of `DEFAULT_POLICY_PATHS` to be
+ * created, watching the parent of `.handraise` until that directory exists.
+ */
+export async function watchMcpApprovalPolicy(
+  opts: LoadMcpApprovalPolicyOptions & {
+    logger?: McpHumanInLoopLogger;
+    onReload?: (policy: McpApprovalPolicy) => void;
+    debounceMs?: number;
+  } = {}
+): Promise<McpApprovalPolicyWatcher> {
+  const initial = await loadMcpApprovalPolicy(opts);
+  let policy = initial.policy;
+  let sourcePath = initial.sourcePath;
+
+  const debounceMs = opts.debounceMs ?? RELOAD_DEBOUNCE_MS;
+  const dir = sourcePath
+    ? path.dirname(sourcePath)
+    : path.resolve(opts.cwd ?? process.cwd(), path.dirname(DEFAULT_POLICY_PATHS[0] ?? ""));
+  const fileNames = new Set(
+    sourcePath ? [path.basename(sourcePath)] : DEFAULT_POLICY_PATHS.map((candidate) => path.basename(candidate))
+  );
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const reload = async () => {
+    try {
+      const next = await loadMcpApprovalPolicy(sourcePath ? { ...opts, path: sourcePath } : opts);
+      if (closed || !next.sourcePath) return;
+      policy = next.policy;
+      sourcePath = next.sourcePath;
+      opts.logger?.info("mcp_policy_reloaded", { sourcePath });
+      opts.onReload?.(policy);
+    } catch (error: unknown) {
+      opts.logger?.warn("mcp_policy_reload_failed", { sourcePath: sourcePath ?? dir, error: errorMessage(error) });
+    }
+  };
+
+  const scheduleReload = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void reload(), debounceMs);
+    timer.unref();
+  };
+
+  // Watch the directory: editors often replace the file instead of writing it in place.
+  const watchPolicyDir = (): FSWatcher => {
+    const dirWatcher = watch(dir, (_event, changed) => {
+      if (changed && !fileNames.has(changed)) return;
+      scheduleReload();
+    });
+    dirWatcher.unref();
+    return dirWatcher;
+  };
+
+  const watchParentDir = (): FSWatcher => {
+    const parentWatcher = watch(path.dirname(dir), (_event, changed) => {
+      if (closed || (changed && changed !== path.basename(dir))) return;
+      try {
+        watcher = watchPolicyDir();
+      } catch {
+        return;
+      }
+      parentWatcher.close();
+      scheduleReload();
+    });
+    parentWatcher.unref();
+    return parentWatcher;
+  };
+
+  let watcher: FSWatcher;
+  try {
+    watcher = watchPolicyDir();
+  } catch (error: unknown) {
+    if (sourcePath || (error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    watcher = watchParentDir();
+  }
+
+  return {
+    get sourcePath() {
+      return sourcePath;
+    },
+    current: () => policy,
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    }
+  };
+}
+
+function mergeFileLayer(base: McpApprovalPolicy, file: McpApprovalPolicyFile): McpApprovalPolicy {
+  return {
+    defaultRequireApproval: file.defaultRequireApproval ?? base.defaultRequireApproval,
+    allowlist: unique([...(base.allowlist ?? []), ...(file.allowlist ?? [])]),
+    denylist: unique([...(base.denylist ?? []), ...(file.denylist ?? [])]),
+    tools: [...(base.tools ?? []), ...(file.tools ?? [])],
+    ...(file.sessionBudget !== undefined ? { sessionBudget: file.sessionBudget } : {}),
+    ...(file.approvalScoreThreshold !== undefined
+      ? { approvalScoreThreshold: file.approvalScoreThreshold }
+      : {}),
+    ...(file.profiles !== undefined ? { profiles: file.profiles } : {})
+  };
+}
+
+function mergeEnvLayer(policy: McpApprovalPolicy, env: McpApprovalPolicyEnv): McpApprovalPolicy {
+  return {
+    ...policy,
+    defaultRequireApproval: env.defaultRequireApproval ?? policy.defaultRequireApproval,
+    allowlist: unique([...(policy.allowlist ?? []), ...env.allowlist]),
+    denylist: unique([...(policy.denylist ?? []), ...env.denylist])
+  };
+}
+
+function profileIssue(policy: McpApprovalPolicy, profile: string, issuePath: string): McpPolicyLoadIssue[] {
+  try {
+    resolvePolicyProfile(policy, profile);
+    return [];
+  } catch (error: unknown) {
+    if (!(error instanceof McpPolicyProfileError)) throw error;
+    return [{ path: issuePath, message: error.message }];
+  }
+}
+
+function readPatternList(
+  env: NodeJS.ProcessEnv,
+  name: string,
+  issues: McpPolicyLoadIssue[]
+): string[] {
+  const raw = env[name];
+  if (!raw) return [];
+
+  const patterns = raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+  patterns.forEach((pattern, index) => {
+    try {
+      compileToolPattern(pattern);
+    } catch (error: unknown) {
+      issues.push({ path: `${name}[${index}]`, message: errorMessage(error) });
+    }
+  });
+  return patterns;
+}
+
+function locateIssue(
+  doc: Document,
+  lineCounter: LineCounter,
+  issuePath: Array<string | number>
+): { line?: number; column?: number } {
+  // Missing keys have no node; fall back to the closest existing ancestor.
+  for (let depth = issuePath.length; depth >= 0; depth -= 1) {
+    const node = depth === 0 ? doc.contents : doc.getIn(issuePath.slice(0, depth), true);
+    if (isNode(node) && node.range) return toLineColumn(lineCounter, node.range[0]);
+  }
+  return {};
+}
+
+function toLineColumn(lineCounter: LineCounter, offset: number): { line: number; column: number } {
+  const pos = lineCounter.linePos(offset);
+  return { line: pos.line, column: pos.col };
+}
+
+function formatIssuePath(issuePath: Array<string | number>): string {
+  let out = "";
+  for (const segment of issuePath) {
+    out += typeof segment === "number" ? `[${segment}]` : out.length > 0 ? `.${segment}` : segment;
+  }
+  return out;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
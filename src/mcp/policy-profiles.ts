@@ -0,0 +1,122 @@
+import { McpPolicyProfileError } from "./errors.js";
+import type { McpApprovalPolicy, McpApprovalPolicyProfile, McpCallerContextMatch, ToolRule } from "./policy.js";
+import { mergeArgDisplayOverrides } from "./redaction.js";
+import type { McpToolPattern } from "./tool-pattern.js";
+
+const resolvedCache = new WeakMap<McpApprovalPolicy, Map<string, McpApprovalPolicy>>();
+
+/**
+ * Flattens a profile into a plain policy. The chain of `extends` is applied
+ * from the top-level policy down to `name`, each layer merged as follows:
+ *
+ * - `defaultRequireApproval`, `sessionBudget` and `approvalScoreThreshold`:
+ *   the profile's value wins.
+ * - `allowlist` / `denylist`: new patterns are appended to the inherited
+ *   list; `!pattern` removes `pattern` from it.
+ * - `tools`: a rule whose `toolName` and `context` equal an inherited rule's is merged
+ *   into it in place (its fields win, its `conditions` are checked before
+ *   the inherited ones, `argDisplay` merges as in `mergeArgDisplayOptions`);
+ *   other rules are appended.
+ *
+ * Throws `McpPolicyProfileError` for an unknown profile or an `extends` cycle.
+ */
+export function resolvePolicyProfile(
+  policy: McpApprovalPolicy,
+  name: string | undefined = policy.profile
+): McpApprovalPolicy {
+  const { profiles, profile: _selected, ...base } = policy;
+  if (name === undefined) return base;
+
+  let cache = resolvedCache.get(policy);
+  const cached = cache?.get(name);
+  if (cached) return cached;
+
+  const chain: McpApprovalPolicyProfile[] = [];
+  const seen: string[] = [];
+  for (let current: string | undefined = name; current !== undefined; ) {
+    if (seen.includes(current)) {
+      throw new McpPolicyProfileError({ profile: name, message: `extends cycle: ${[...seen, current].join(" -> ")}` });
+    }
+    const layer: McpApprovalPolicyProfile | undefined = profiles?.[current];
+    if (!layer) {
+      const known = Object.keys(profiles ?? {});
+      throw new McpPolicyProfileError({
+        profile: name,
+        message:
+          current === name
+            ? `unknown profile${known.length > 0 ? ` (known: ${known.join(", ")})` : ""}`
+            : `extends unknown profile '${current}'`
+      });
+    }
+    seen.push(current);
+    chain.unshift(layer);
+    current = layer.extends;
+  }
+
+  const resolved = chain.reduce(applyPolicyProfile, base);
+  if (!cache) {
+    cache = new Map();
+    resolvedCache.set(policy, cache);
+  }
+  cache.set(name, resolved);
+  return resolved;
+}
+
+function applyPolicyProfile(base: McpApprovalPolicy, profile: McpApprovalPolicyProfile): McpApprovalPolicy {
+  const sessionBudget = profile.sessionBudget ?? base.sessionBudget;
+  const approvalScoreThreshold = profile.approvalScoreThreshold ?? base.approvalScoreThreshold;
+  return {
+    defaultRequireApproval: profile.defaultRequireApproval ?? base.defaultRequireApproval,
+    allowlist: mergePatternList(base.allowlist ?? [], profile.allowlist ?? []),
+    denylist: mergePatternList(base.denylist ?? [], profile.denylist ?? []),
+    tools: mergeToolRules(base.tools ?? [], profile.tools ?? []),
+    ...(sessionBudget !== undefined ? { sessionBudget } : {}),
+    ...(approvalScoreThreshold !== undefined ? { approvalScoreThreshold } : {})
+  };
+}
+
+function mergePatternList(base: McpToolPattern[], entries: McpToolPattern[]): McpToolPattern[] {
+  const merged = [...base];
+  for (const entry of entries) {
+    if (entry.startsWith("!")) {
+      const removed = entry.slice(1);
+      const index = merged.indexOf(removed);
+      if (index >= 0) merged.splice(index, 1);
+    } else if (!merged.includes(entry)) {
+      merged.push(entry);
+    }
+  }
+  return merged;
+}
+
+function mergeToolRules(base: ToolRule[], rules: ToolRule[]): ToolRule[] {
+  const merged = [...base];
+  for (const rule of rules) {
+    const index = merged.findIndex(
+      (existing) => existing.toolName === rule.toolName && sameContextMatch(existing.context, rule.context)
+    );
+    if (index < 0) {
+      merged.push(rule);
+      continue;
+    }
+    const inherited = merged[index]!;
+    const argDisplay = mergeArgDisplayOverrides(inherited.argDisplay, rule.argDisplay);
+    const conditions = [...(rule.conditions ?? []), ...(inherited.conditions ?? [])];
+    merged[index] = {
+      ...inherited,
+      ...rule,
+      ...(argDisplay !== undefined ? { argDisplay } : {}),
+      ...(conditions.length > 0 ? { conditions } : {})
+    };
+  }
+  return merged;
+}
+
+function sameContextMatch(a: McpCallerContextMatch | undefined, b: McpCallerContextMatch | undefined): boolean {
+  const aEntries = Object.entries(a ?? {}).filter(([, pattern]) => pattern !== undefined);
+  const bEntries = Object.entries(b ?? {}).filter(([, pattern]) => pattern !== undefined);
+  return (
+    aEntries.length === bEntries.length &&
+    aEntries.every(([field, pattern]) => b?.[field as keyof McpCallerContextMatch] === pattern)
+  );
+}
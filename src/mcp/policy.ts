@@ -1,25 +1,128 @@
-import type { ArgDisplayOptions } from "./redaction.js";
-import { defaultArgDisplayOptions } from "./redaction.js";
-import type { McpRiskClass, McpToolName } from "./types.js";
+import type { McpArgsSchema } from "./args-schema.js";
+import type { ArgCondition } from "./conditions.js";
+import { evaluateArgCondition } from "./conditions.js";
+import { resolvePolicyProfile } from "./policy-profiles.js";
+import type { ArgDisplayOptions, ArgDisplayOverride } from "./redaction.js";
+import { defaultArgDisplayOptions, mergeArgDisplayOptions } from "./redaction.js";
+import type { CompiledToolPattern, McpToolPattern } from "./tool-pattern.js";
+import { compareToolPatternSpecificity, compileToolPattern, matchesToolPattern } from "./tool-pattern.js";
+import type {
+  McpApprovalQuorum,
+  McpApprovalTimeoutBehavior,
+  McpCallerContext,
+  McpRiskClass,
+  McpSessionCallBudget,
+  McpToolCall,
+  McpToolName,
+  McpToolRateLimit
+} from "./types.js";
+
+export type ToolRuleCondition = {
+  when: ArgCondition;
+  requireApproval?: boolean;
+  risk?: McpRiskClass;
+  argDisplay?: ArgDisplayOverride;
+};
+
+/**
+ * Patterns over a call's caller context, in tool pattern syntax
+ * (`main`, `release/*`, `/^claude/i`). Every listed field must match; a
+ * field the call's context lacks never matches.
+ */
+export type McpCallerContextMatch = {
+  [K in keyof McpCallerContext]?: McpToolPattern;
+};
 
 export type ToolRule = {
-  toolName: McpToolName;
+  toolName: McpToolPattern;
+  /** Limits the rule to calls whose caller context matches. */
+  context?: McpCallerContextMatch;
   requireApproval?: boolean;
   risk?: McpRiskClass;
-  argDisplay?: Partial<ArgDisplayOptions>;
+  argDisplay?: ArgDisplayOverride;
+  conditions?: ToolRuleCondition[];
+  approvalTimeoutMs?: number;
+  onApprovalTimeout?: McpApprovalTimeoutBehavior;
+  quorum?: McpApprovalQuorum;
+  /** Enforced even when the rule needs no approval. */
+  rateLimit?: McpToolRateLimit;
+  /** Overrides the policy's `approvalScoreThreshold` for this tool. */
+  approvalScoreThreshold?: number;
+  /** Approver-edited `overrideArgs` must match this schema before the tool runs. */
+  argsSchema?: McpArgsSchema;
+  /**
+   * Show the tool's result to a human before it is returned. `display`
+   * overrides how the result is redacted, on top of `argDisplay`.
+   */
+  reviewResult?: boolean | { display?: ArgDisplayOverride };
 };
 
 export type McpApprovalPolicy = {
   defaultRequireApproval: boolean;
-  allowlist?: McpToolName[];
-  denylist?: McpToolName[];
+  allowlist?: McpToolPattern[];
+  denylist?: McpToolPattern[];
   tools?: ToolRule[];
+  /** Caps tool executions across all tools for the gate's lifetime. */
+  sessionBudget?: McpSessionCallBudget;
+  /**
+   * Calls whose risk score (see the gate's `riskScorer`) reaches this value
+   * need approval, even when allowlisted.
+   */
+  approvalScoreThreshold?: number;
+  /** Named variants of this policy; see `resolvePolicyProfile`. */
+  profiles?: Record<string, McpApprovalPolicyProfile>;
+  /** The profile `matchPolicy` applies; unset uses the top-level policy. */
+  profile?: string;
+};
+
+/**
+ * Overrides layered over the top-level policy, or over the profile named in
+ * `extends`. In `allowlist` and `denylist`, a `!pattern` entry removes that
+ * pattern from the inherited list.
+ */
+export type McpApprovalPolicyProfile = Partial<Omit<McpApprovalPolicy, "profiles" | "profile">> & {
+  extends?: string;
 };
 
+export type PolicyRuleSource = "allowlist" | "denylist" | "tools";
+
+export type PolicyMatchedRule =
+  | {
+      source: PolicyRuleSource;
+      index: number;
+      pattern: McpToolPattern;
+      conditionIndex?: number;
+    }
+  | { source: "default" };
+
 export type PolicyMatch = {
   requireApproval: boolean;
   risk: McpRiskClass;
   argDisplay: ArgDisplayOptions;
+  matchedRule: PolicyMatchedRule;
+  /** Set when the matched rule overrides the gate's approval timeout. */
+  approvalTimeoutMs?: number;
+  onApprovalTimeout?: McpApprovalTimeoutBehavior;
+  quorum?: McpApprovalQuorum;
+  rateLimit?: McpToolRateLimit;
+  approvalScoreThreshold?: number;
+  argsSchema?: McpArgsSchema;
+  /** Set when the matched rule asks for a result review. */
+  resultReview?: { display: ArgDisplayOptions };
+};
+
+type PolicyCandidate = {
+  source: PolicyRuleSource;
+  index: number;
+  compiled: CompiledToolPattern;
+  /** Number of caller context fields the rule matched on. */
+  contextFields: number;
+};
+
+const SOURCE_ORDER: Record<PolicyRuleSource, number> = {
+  allowlist: 0,
+  denylist: 1,
+  tools: 2
 };
 
 export function defaultMcpApprovalPolicy(): McpApprovalPolicy {
@@ -31,43 +134,151 @@ export function defaultMcpApprovalPolicy(): McpApprovalPolicy {
   };
 }
 
+/**
+ * Resolves the policy entry for a tool call.
+ *
+ * Every `allowlist`, `denylist` and `tools[]` pattern that matches is a
+ * candidate; the most specific one wins (exact name, then glob with the most
+ * literal characters, then regex). Ties go to the `tools[]` rule matching
+ * the most caller `context` fields, then `allowlist`, then `denylist`, then
+ * `tools[]`, then declaration order. A `tools[]` rule whose `context` does
+ * not match `call.context` is not a candidate. With no candidate the policy
+ * default applies.
+ *
+ * A winning `tools[]` rule is then refined by the first of its `conditions`
+ * that holds for `call.args`; the condition's settings override the rule's.
+ * When an `allowlist` or `denylist` entry wins, the `rateLimit` of the most
+ * specific matching `tools[]` rule that sets one still applies.
+ *
+ * When `policy.profile` is set, the profile is resolved first.
+ */
 export function matchPolicy(
-  policy: McpApprovalPolicy,
-  toolName: McpToolName
+  selected: McpApprovalPolicy,
+  call: McpToolCall
 ): PolicyMatch {
-  if (policy.allowlist?.includes(toolName)) {
-    return {
-      requireApproval: false,
-      risk: "low",
-      argDisplay: defaultArgDisplayOptions()
-    };
-  }
+  const policy = selected.profile !== undefined ? resolvePolicyProfile(selected) : selected;
+  const ranked = rankCandidates(policy, call);
+  const candidate = ranked[0];
+  const policyThreshold =
+    policy.approvalScoreThreshold !== undefined
+      ? { approvalScoreThreshold: policy.approvalScoreThreshold }
+      : {};
 
-  if (policy.denylist?.includes(toolName)) {
+  if (candidate?.source === "allowlist" || candidate?.source === "denylist") {
+    const allowed = candidate.source === "allowlist";
+    const rateLimit = ranked
+      .map((other) => (other.source === "tools" ? policy.tools?.[other.index]?.rateLimit : undefined))
+      .find((limit) => limit !== undefined);
     return {
-      requireApproval: true,
-      risk: "high",
-      argDisplay: defaultArgDisplayOptions()
+      requireApproval: !allowed,
+      risk: allowed ? "low" : "high",
+      argDisplay: defaultArgDisplayOptions(),
+      matchedRule: toMatchedRule(candidate),
+      ...(rateLimit !== undefined ? { rateLimit } : {}),
+      ...policyThreshold
     };
   }
 
-  const rule = policy.tools?.find((t) => t.toolName === toolName);
-  const requireApproval = rule?.requireApproval ?? policy.defaultRequireApproval;
-  const risk: McpRiskClass = rule?.risk ?? (requireApproval ? "medium" : "low");
+  const rule = candidate ? policy.tools?.[candidate.index] : undefined;
+  const conditionIndex =
+    rule?.conditions?.findIndex((c) => evaluateArgCondition(c.when, call.args)) ?? -1;
+  const condition = conditionIndex >= 0 ? rule?.conditions?.[conditionIndex] : undefined;
+
+  const requireApproval =
+    condition?.requireApproval ?? rule?.requireApproval ?? policy.defaultRequireApproval;
+  const risk: McpRiskClass = condition?.risk ?? rule?.risk ?? (requireApproval ? "medium" : "low");
   const base = defaultArgDisplayOptions();
-  const mergedArgDisplay = mergeArgDisplayOptions(base, rule?.argDisplay);
+  const mergedArgDisplay = mergeArgDisplayOptions(
+    mergeArgDisplayOptions(base, rule?.argDisplay),
+    condition?.argDisplay
+  );
+
+  return {
+    requireApproval,
+    risk,
+    argDisplay: mergedArgDisplay,
+    matchedRule: candidate
+      ? toMatchedRule(candidate, condition ? conditionIndex : undefined)
+      : { source: "default" },
+    ...(rule?.approvalTimeoutMs !== undefined ? { approvalTimeoutMs: rule.approvalTimeoutMs } : {}),
+    ...(rule?.onApprovalTimeout !== undefined ? { onApprovalTimeout: rule.onApprovalTimeout } : {}),
+    ...(rule?.quorum !== undefined ? { quorum: rule.quorum } : {}),
+    ...(rule?.rateLimit !== undefined ? { rateLimit: rule.rateLimit } : {}),
+    ...(rule?.argsSchema !== undefined ? { argsSchema: rule.argsSchema } : {}),
+    ...(rule?.reviewResult
+      ? {
+          resultReview: {
+            display: mergeArgDisplayOptions(
+              mergedArgDisplay,
+              typeof rule.reviewResult === "object" ? rule.reviewResult.display : undefined
+            )
+          }
+        }
+      : {}),
+    ...(rule?.approvalScoreThreshold !== undefined
+      ? { approvalScoreThreshold: rule.approvalScoreThreshold }
+      : policyThreshold)
+  };
+}
+
+/** Every candidate for the call, most specific first. */
+function rankCandidates(policy: McpApprovalPolicy, call: McpToolCall): PolicyCandidate[] {
+  const candidates: PolicyCandidate[] = [];
+  collectCandidates(candidates, "allowlist", policy.allowlist ?? [], call.toolName);
+  collectCandidates(candidates, "denylist", policy.denylist ?? [], call.toolName);
+  collectCandidates(
+    candidates,
+    "tools",
+    (policy.tools ?? []).map((t) => t.toolName),
+    call.toolName
+  );
 
-  return { requireApproval, risk, argDisplay: mergedArgDisplay };
+  const eligible = candidates.filter((candidate) => {
+    if (candidate.source !== "tools") return true;
+    const match = policy.tools?.[candidate.index]?.context;
+    if (!match) return true;
+    if (!matchesCallerContext(match, call.context)) return false;
+    candidate.contextFields = Object.keys(match).length;
+    return true;
+  });
+
+  eligible.sort((a, b) => {
+    const specificity = compareToolPatternSpecificity(a.compiled, b.compiled);
+    if (specificity !== 0) return specificity;
+    const context = b.contextFields - a.contextFields;
+    if (context !== 0) return context;
+    const source = SOURCE_ORDER[a.source] - SOURCE_ORDER[b.source];
+    if (source !== 0) return source;
+    return a.index - b.index;
+  });
+
+  return eligible;
+}
+
+function matchesCallerContext(match: McpCallerContextMatch, context: McpCallerContext | undefined): boolean {
+  return Object.entries(match).every(([field, pattern]) => {
+    const value = context?.[field as keyof McpCallerContext];
+    return pattern === undefined || (value !== undefined && matchesToolPattern(pattern, value));
+  });
+}
+
+function collectCandidates(
+  out: PolicyCandidate[],
+  source: PolicyRuleSource,
+  patterns: McpToolPattern[],
+  toolName: McpToolName
+): void {
+  patterns.forEach((pattern, index) => {
+    const compiled = compileToolPattern(pattern);
+    if (compiled.test(toolName)) out.push({ source, index, compiled, contextFields: 0 });
+  });
 }
 
-function mergeArgDisplayOptions(
-  base: ArgDisplayOptions,
-  override?: Partial<ArgDisplayOptions>
-): ArgDisplayOptions {
-  if (!override) return base;
+function toMatchedRule(candidate: PolicyCandidate, conditionIndex?: number): PolicyMatchedRule {
   return {
-    ...base,
-    ...override,
-    rules: override.rules ?? base.rules
+    source: candidate.source,
+    index: candidate.index,
+    pattern: candidate.compiled.pattern,
+    ...(conditionIndex !== undefined ? { conditionIndex } : {})
   };
 }
@@ -0,0 +1,150 @@
+import { redactTextForDisplay, type ArgDisplayOptions } from "./redaction.js";
+import type { McpToolPattern } from "./tool-pattern.js";
+import type { McpApprovalPreview, McpToolCall } from "./types.js";
+
+/**
+ * Describes what a call would do without running it. Return `undefined` when
+ * there is nothing useful to show; a thrown error only annotates the request.
+ */
+export type McpApprovalPreviewProvider = (
+  call: McpToolCall
+) => McpApprovalPreview | undefined | Promise<McpApprovalPreview | undefined>;
+
+export type McpApprovalPreviewRule = {
+  toolName: McpToolPattern;
+  preview: McpApprovalPreviewProvider;
+};
+
+/**
+ * Redacts every text field of a preview with `redactTextForDisplay`, so a
+ * diff or dry-run output does not show what the call's args hide.
+ */
+export function redactApprovalPreview(
+  preview: McpApprovalPreview,
+  args: unknown,
+  opts: ArgDisplayOptions
+): McpApprovalPreview {
+  const redact = (text: string) => redactTextForDisplay(text, args, opts);
+  switch (preview.kind) {
+    case "diff":
+      return { ...preview, diff: redact(preview.diff) };
+    case "rows":
+      return preview.detail !== undefined ? { ...preview, detail: redact(preview.detail) } : preview;
+    case "files":
+      return { ...preview, files: preview.files.map((file) => ({ ...file, path: redact(file.path) })) };
+    case "text":
+      return { ...preview, text: redact(preview.text) };
+  }
+}
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+/** Above this many line pairs the diff replaces the whole text instead of aligning it. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Renders a preview as plain lines for prompts and logs.
+ */
+export function formatApprovalPreview(preview: McpApprovalPreview): string[] {
+  switch (preview.kind) {
+    case "diff":
+      return preview.diff.replace(/\n$/, "").split("\n");
+    case "rows":
+      return [
+        `Affects about ${preview.estimatedRows} row${preview.estimatedRows === 1 ? "" : "s"}`,
+        ...(preview.detail ? [preview.detail] : [])
+      ];
+    case "files":
+      return preview.files.map((file) => `${file.change ?? "touch"} ${file.path}`);
+    case "text":
+      return preview.text.split("\n");
+  }
+}
+
+/**
+ * A line-based unified diff of `before` and `after`, for `diff` previews.
+ * Returns an empty string when the texts are equal.
+ */
+export function createUnifiedDiff(
+  before: string,
+  after: string,
+  opts: { path?: string; context?: number } = {}
+): string {
+  if (before === after) return "";
+  const context = opts.context ?? 3;
+  const ops = diffLines(splitLines(before), splitLines(after));
+
+  const out = [`--- ${opts.path ? `a/${opts.path}` : "before"}`, `+++ ${opts.path ? `b/${opts.path}` : "after"}`];
+  let index = 0;
+  while (index < ops.length) {
+    const firstChange = ops.findIndex((op, i) => i >= index && op.kind !== " ");
+    if (firstChange < 0) break;
+
+    const start = Math.max(index, firstChange - context);
+    let end = firstChange;
+    let unchangedRun = 0;
+    for (let i = firstChange; i < ops.length; i += 1) {
+      if (ops[i]!.kind === " ") {
+        unchangedRun += 1;
+        if (unchangedRun > context * 2) break;
+      } else {
+        unchangedRun = 0;
+        end = i;
+      }
+    }
+    const stop = Math.min(ops.length, end + context + 1);
+
+    const oldStart = ops.slice(0, start).filter((op) => op.kind !== "+").length;
+    const newStart = ops.slice(0, start).filter((op) => op.kind !== "-").length;
+    const hunk = ops.slice(start, stop);
+    const oldLen = hunk.filter((op) => op.kind !== "+").length;
+    const newLen = hunk.filter((op) => op.kind !== "-").length;
+    out.push(`@@ -${hunkStart(oldStart, oldLen)},${oldLen} +${hunkStart(newStart, newLen)},${newLen} @@`);
+    for (const op of hunk) out.push(`${op.kind}${op.line}`);
+    index = stop;
+  }
+  return `${out.join("\n")}\n`;
+}
+
+function hunkStart(offset: number, length: number): number {
+  return length === 0 ? offset : offset + 1;
+}
+
+function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  return text.replace(/\n$/, "").split("\n");
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map((line) => ({ kind: "-" as const, line })), ...b.map((line) => ({ kind: "+" as const, line }))];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..].
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: " ", line: a[i]! });
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      ops.push({ kind: "-", line: a[i]! });
+      i += 1;
+    } else {
+      ops.push({ kind: "+", line: b[j]! });
+      j += 1;
+    }
+  }
+  while (i < a.length) ops.push({ kind: "-", line: a[i++]! });
+  while (j < b.length) ops.push({ kind: "+", line: b[j++]! });
+  return ops;
+}
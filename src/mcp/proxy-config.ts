@@ -0,0 +1,125 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { z } from "zod";
+
+import { McpProxyConfigError } from "./errors.js";
+import { parseHandraiseConfigFile } from "./policy-loader.js";
+import { errorMessage } from "./util.js";
+
+export const DEFAULT_PROXY_CONFIG_PATHS = [
+  ".handraise/proxy.json",
+  ".handraise/proxy.yaml",
+  ".handraise/proxy.yml"
+];
+
+const DownstreamStdioServerSchema = z
+  .object({
+    command: z.array(z.string().min(1)).min(1),
+    env: z.record(z.string()).optional(),
+    cwd: z.string().min(1).optional()
+  })
+  .strict();
+
+const DownstreamHttpServerSchema = z
+  .object({
+    url: z.string().url(),
+    headers: z.record(z.string()).optional()
+  })
+  .strict();
+
+export const HandraiseProxyConfigSchema = z
+  .object({
+    servers: z.record(
+      z.string().regex(/^[A-Za-z0-9_-]+$/, "server names may only use letters, digits, '_' and '-'"),
+      z.union([DownstreamStdioServerSchema, DownstreamHttpServerSchema])
+    )
+  })
+  .strict();
+
+export type DownstreamStdioServerConfig = {
+  command: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+};
+
+export type DownstreamHttpServerConfig = {
+  url: string;
+  headers?: Record<string, string>;
+};
+
+export type DownstreamServerConfig = DownstreamStdioServerConfig | DownstreamHttpServerConfig;
+
+export type HandraiseProxyConfig = {
+  /** Downstream servers keyed by the namespace their tools are re-exported under. */
+  servers: Record<string, DownstreamServerConfig>;
+};
+
+export type LoadHandraiseProxyConfigOptions = {
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  /** Explicit file path; takes precedence over `HANDRAISE_PROXY_CONFIG_PATH`. */
+  path?: string;
+};
+
+export async function loadHandraiseProxyConfig(
+  opts: LoadHandraiseProxyConfigOptions = {}
+): Promise<{ config: HandraiseProxyConfig; sourcePath: string }> {
+  const sourcePath = await resolveHandraiseProxyConfigPath(opts);
+  if (!sourcePath) {
+    throw new McpProxyConfigError({
+      source: "environment",
+      issues: [
+        {
+          path: "HANDRAISE_PROXY_CONFIG_PATH",
+          message: `not set and none of ${DEFAULT_PROXY_CONFIG_PATHS.join(", ")} exist`
+        }
+      ]
+    });
+  }
+
+  let text: string;
+  try {
+    text = await readFile(sourcePath, "utf8");
+  } catch (error: unknown) {
+    const message = errorMessage(error);
+    throw new McpProxyConfigError({ source: sourcePath, issues: [{ path: "", message }] });
+  }
+
+  return { config: parseHandraiseProxyConfigFile(text, sourcePath), sourcePath };
+}
+
+export async function resolveHandraiseProxyConfigPath(
+  opts: LoadHandraiseProxyConfigOptions = {}
+): Promise<string | undefined> {
+  const env = opts.env ?? process.env;
+  const cwd = opts.cwd ?? process.cwd();
+
+  const explicit = opts.path?.trim() || env.HANDRAISE_PROXY_CONFIG_PATH?.trim();
+  if (explicit) return path.resolve(cwd, explicit);
+
+  for (const candidate of DEFAULT_PROXY_CONFIG_PATHS) {
+    const fullPath = path.resolve(cwd, candidate);
+    try {
+      if ((await stat(fullPath)).isFile()) return fullPath;
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+export function parseHandraiseProxyConfigFile(text: string, source: string): HandraiseProxyConfig {
+  const data = parseHandraiseConfigFile(
+    text,
+    HandraiseProxyConfigSchema,
+    (issues) => new McpProxyConfigError({ source, issues })
+  );
+  return data as HandraiseProxyConfig;
+}
+
+export function isDownstreamStdioServer(
+  config: DownstreamServerConfig
+): config is DownstreamStdioServerConfig {
+  return "command" in config;
+}
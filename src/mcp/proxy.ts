@@ -0,0 +1,299 @@
+import process from "node:process";
+import { randomUUID } from "node:crypto";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { getDefaultEnvironment, StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  ToolListChangedNotificationSchema,
+  type CallToolResult,
+  type Tool
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { createAskUserBridgeApprovalAdapter } from "./approval-bridge-adapter.js";
+import { autolaunchAskUserResponder } from "./ask-user-autolaunch.js";
+import { createJsonlAuditSink } from "./audit.js";
+import { resolveCallerContext } from "./caller-context.js";
+import {
+  McpApprovalArgsValidationError,
+  McpCallBudgetExceededError,
+  McpHumanApprovalCancelledError,
+  McpHumanApprovalDeniedError,
+  McpHumanApprovalTimeoutError,
+  McpResultWithheldError
+} from "./errors.js";
+import { createMcpHumanInLoopGate, type McpHumanInLoopGate } from "./gate.js";
+import { watchMcpApprovalPolicy } from "./policy-loader.js";
+import { createHeuristicRiskScorer } from "./risk.js";
+import {
+  isDownstreamStdioServer,
+  loadHandraiseProxyConfig,
+  type DownstreamServerConfig,
+  type HandraiseProxyConfig
+} from "./proxy-config.js";
+import type { McpHumanInLoopLogger } from "./types.js";
+import { errorMessage, isPlainObject } from "./util.js";
+
+export const PROXY_NAMESPACE_SEPARATOR = ".";
+
+export type DownstreamConnection = {
+  name: string;
+  client: Client;
+  close: () => Promise<void>;
+};
+
+type ProxyRoute = {
+  downstream: DownstreamConnection;
+  tool: Tool;
+};
+
+export async function connectDownstreamServers(
+  config: HandraiseProxyConfig
+): Promise<DownstreamConnection[]> {
+  const connections: DownstreamConnection[] = [];
+
+  try {
+    for (const [name, serverConfig] of Object.entries(config.servers)) {
+      connections.push(await connectDownstreamServer(name, serverConfig));
+    }
+  } catch (error: unknown) {
+    await Promise.allSettled(connections.map((connection) => connection.close()));
+    throw error;
+  }
+
+  return connections;
+}
+
+export async function connectDownstreamServer(
+  name: string,
+  config: DownstreamServerConfig
+): Promise<DownstreamConnection> {
+  const client = new Client({ name: `raisehand-proxy/${name}`, version: "0.1.0" });
+
+  if (isDownstreamStdioServer(config)) {
+    const [command, ...args] = config.command;
+    await client.connect(
+      new StdioClientTransport({
+        command: command!,
+        args,
+        stderr: "inherit",
+        env: downstreamStdioEnv(config.env),
+        ...(config.cwd !== undefined ? { cwd: config.cwd } : {})
+      })
+    );
+  } else {
+    const transport = new StreamableHTTPClientTransport(new URL(config.url), {
+      ...(config.headers !== undefined ? { requestInit: { headers: config.headers } } : {})
+    });
+    // The SDK types `sessionId` as `string | undefined`, which exactOptionalPropertyTypes rejects.
+    await client.connect(transport as Transport);
+  }
+
+  return { name, client, close: () => client.close() };
+}
+
+/**
+ * The environment a stdio downstream starts with: the SDK's default
+ * inherited variables (`PATH`, `HOME`, ...) with the configured ones on top.
+ */
+export function downstreamStdioEnv(env: Record<string, string> | undefined): Record<string, string> {
+  return { ...getDefaultEnvironment(), ...env };
+}
+
+/**
+ * An MCP server that re-exports every downstream tool as
+ * `<server>.<tool>` and runs each call through the approval gate.
+ * Denied, timed-out and cancelled calls come back as tool errors so the
+ * agent can react to them.
+ * Each call carries the caller context: the client's name, the session,
+ * `workspace` (default: the working directory) and its git branch.
+ */
+export function createHandraiseProxyServer(opts: {
+  downstreams: DownstreamConnection[];
+  gate: McpHumanInLoopGate;
+  logger?: McpHumanInLoopLogger;
+  workspace?: string;
+}): Server {
+  const server = new Server(
+    { name: "raisehand-proxy", version: "0.1.0" },
+    { capabilities: { tools: { listChanged: true } } }
+  );
+  const processSessionId = randomUUID();
+  let routes = new Map<string, ProxyRoute>();
+
+  const refreshRoutes = async (): Promise<Map<string, ProxyRoute>> => {
+    const next = new Map<string, ProxyRoute>();
+    for (const downstream of opts.downstreams) {
+      try {
+        for (const tool of await listAllTools(downstream.client)) {
+          next.set(`${downstream.name}${PROXY_NAMESPACE_SEPARATOR}${tool.name}`, { downstream, tool });
+        }
+      } catch (error: unknown) {
+        opts.logger?.warn("mcp_proxy_list_failed", {
+          server: downstream.name,
+          error: errorMessage(error)
+        });
+      }
+    }
+    routes = next;
+    return routes;
+  };
+
+  for (const downstream of opts.downstreams) {
+    downstream.client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      await refreshRoutes();
+      await server.sendToolListChanged();
+    });
+  }
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const current = await refreshRoutes();
+    return {
+      tools: [...current.entries()].map(([name, route]) => ({ ...route.tool, name }))
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const toolName = request.params.name;
+    const route = routes.get(toolName) ?? (await refreshRoutes()).get(toolName);
+    if (!route) {
+      throw new McpError(ErrorCode.InvalidParams, `Tool ${toolName} not found`);
+    }
+
+    const agent = server.getClientVersion();
+    const context = await resolveCallerContext({
+      ...(agent !== undefined ? { agent } : {}),
+      sessionId: extra.sessionId ?? processSessionId,
+      workspace: opts.workspace ?? process.cwd(),
+      ...(request.params._meta !== undefined ? { meta: request.params._meta } : {})
+    });
+
+    try {
+      return await opts.gate.executeWithApproval(
+        { toolName, args: request.params.arguments ?? {}, context },
+        async (call) => {
+          if (!isPlainObject(call.args)) {
+            return errorResult(`Approved arguments for ${toolName} must be an object.`);
+          }
+          return (await route.downstream.client.callTool(
+            { name: route.tool.name, arguments: call.args },
+            undefined,
+            { signal: extra.signal }
+          )) as CallToolResult;
+        },
+        { signal: extra.signal }
+      );
+    } catch (error: unknown) {
+      if (error instanceof McpHumanApprovalDeniedError) {
+        return errorResult(
+          `Call to ${toolName} was denied by the human approver${error.reason ? `: ${error.reason}` : "."}`
+        );
+      }
+      if (error instanceof McpResultWithheldError) {
+        return errorResult(
+          `Result of ${toolName} was withheld by the human reviewer${error.reason ? `: ${error.reason}` : "."}`
+        );
+      }
+      if (
+        error instanceof McpCallBudgetExceededError ||
+        error instanceof McpApprovalArgsValidationError ||
+        error instanceof McpHumanApprovalTimeoutError ||
+        error instanceof McpHumanApprovalCancelledError
+      ) {
+        return errorResult(error.message);
+      }
+      throw error;
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Starts the proxy over stdio. `--profile <name>` selects the policy profile,
+ * overriding `HANDRAISE_POLICY_PROFILE`.
+ */
+export async function runHandraiseProxyServer(argv: string[] = process.argv.slice(2)): Promise<void> {
+  const { values } = parseArgs({ args: argv, options: { profile: { type: "string" } } });
+  const logger = stderrLogger();
+  const { config, sourcePath } = await loadHandraiseProxyConfig();
+  const policyWatcher = await watchMcpApprovalPolicy({
+    logger,
+    ...(values.profile !== undefined ? { profile: values.profile } : {})
+  });
+  const downstreams = await connectDownstreamServers(config);
+  console.error(
+    `[raisehand] proxy loaded ${downstreams.length} downstream server(s) from ${sourcePath}` +
+      (policyWatcher.sourcePath ? `, policy from ${policyWatcher.sourcePath}` : "")
+  );
+
+  const auditPath = process.env.HANDRAISE_AUDIT_PATH?.trim();
+  const batchWindowMs = Number.parseInt(process.env.HANDRAISE_BATCH_WINDOW_MS ?? "", 10);
+  const gate = createMcpHumanInLoopGate({
+    policy: policyWatcher.current,
+    handraise: createAskUserBridgeApprovalAdapter(),
+    logger,
+    riskScorer: createHeuristicRiskScorer({ workspaceRoot: process.cwd() }),
+    ...(auditPath ? { audit: createJsonlAuditSink({ path: auditPath }) } : {}),
+    ...(batchWindowMs > 0 ? { batchWindowMs } : {})
+  });
+  const server = createHandraiseProxyServer({ downstreams, gate, logger });
+
+  server.onclose = () => {
+    policyWatcher.close();
+    void Promise.allSettled(downstreams.map((downstream) => downstream.close()));
+  };
+
+  await server.connect(new StdioServerTransport());
+  console.error("raisehand MCP proxy connected via stdio");
+
+  const askCliScriptPath = fileURLToPath(new URL("./ask-user-cli.js", import.meta.url));
+  const launchResult = await autolaunchAskUserResponder({
+    nodePath: process.execPath,
+    scriptPath: askCliScriptPath
+  });
+  if (launchResult.launched) {
+    console.error(`[raisehand] ask responder autolaunched: ${launchResult.command}`);
+  } else {
+    console.error(`[raisehand] ask responder autolaunch skipped: ${launchResult.reason}`);
+  }
+}
+
+async function listAllTools(client: Client): Promise<Tool[]> {
+  const tools: Tool[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await client.listTools(cursor !== undefined ? { cursor } : undefined);
+    tools.push(...page.tools);
+    cursor = page.nextCursor;
+  } while (cursor !== undefined);
+  return tools;
+}
+
+function errorResult(text: string): CallToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+function stderrLogger(): McpHumanInLoopLogger {
+  return {
+    info: (event, payload) => console.error(`[raisehand] ${event} ${JSON.stringify(payload)}`),
+    warn: (event, payload) => console.error(`[raisehand] ${event} ${JSON.stringify(payload)}`)
+  };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runHandraiseProxyServer().catch((error: unknown) => {
+    const message = error instanceof Error ? error.stack ?? error.message : String(error);
+    console.error(message);
+    process.exitCode = 1;
+  });
+}
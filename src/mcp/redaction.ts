@@ -1,16 +1,137 @@
+import { compileConditionRegex } from "./conditions.js";
+import type { McpArgsValidationIssue } from "./errors.js";
+import { fingerprintArgs } from "./grants.js";
+import type { JsonPathSegment } from "./json-path.js";
+import { parseJsonPath } from "./json-path.js";
+import type { SecretDetectorName } from "./secret-detectors.js";
+import { maskSecrets } from "./secret-detectors.js";
+import { childPath, isPlainObject } from "./util.js";
+
+/**
+ * What a redaction rule does with a matched value:
+ *
+ * - `replace` (default): show `replacement` instead
+ * - `drop`: leave the key out entirely; an array item is shown as
+ *   `[DROPPED]` when placeholders are on, so later indices stay put
+ * - `fingerprint`: show `replacement` with a short hash of the value, so
+ *   equal values can be told apart from different ones
+ */
+export type ArgRedactionMode = "replace" | "drop" | "fingerprint";
+
+type ArgRedactionAction = { replacement?: string; mode?: ArgRedactionMode };
+
+/**
+ * - `redactKey`: the value of every `key` property, at any depth
+ * - `redactKeyIgnoreCase`: the same, comparing keys case-insensitively
+ * - `redactKeyPattern`: every property whose key matches the regex
+ * - `redactPath`: the values a JSON path selects, e.g. `$.headers.*` or
+ *   `$.env[*].value`
+ * - `truncateString`: shorten strings to `maxLen`
+ * - `detectSecrets`: mask secrets found inside string values (see
+ *   `SECRET_DETECTORS`); `detectors` limits which detectors run
+ */
 export type ArgRedactionRule =
-  | { kind: "redactKey"; key: string; replacement?: string }
-  | { kind: "truncateString"; maxLen: number };
+  | ({ kind: "redactKey"; key: string } & ArgRedactionAction)
+  | ({ kind: "redactKeyIgnoreCase"; key: string } & ArgRedactionAction)
+  | ({ kind: "redactKeyPattern"; pattern: string; flags?: string } & ArgRedactionAction)
+  | ({ kind: "redactPath"; path: string } & ArgRedactionAction)
+  | { kind: "truncateString"; maxLen: number }
+  | { kind: "detectSecrets"; detectors?: SecretDetectorName[]; replacement?: string };
+
+type KeyRedactionRule = Extract<ArgRedactionRule, { mode?: ArgRedactionMode }>;
 
 export type ArgDisplayOptions = {
   maxDepth: number;
   maxStringLen: number;
   maxArrayLen: number;
   maxObjectKeys: number;
+  /**
+   * Approximate size of the whole output, in UTF-8 bytes of JSON. Values
+   * past the budget become `[TRUNCATED_BUDGET]` and the containers holding
+   * them stop early.
+   */
+  maxTotalBytes: number;
+  /** How byte arrays and buffers are previewed. */
+  binaryPreview: "hex" | "base64";
   rules: ArgRedactionRule[];
 };
 
+/** A secret masked by a `detectSecrets` rule. */
+export type ArgSecretDetection = {
+  /** JSON path of the string that held the secret, e.g. `$.command`. */
+  path: string;
+  detector: SecretDetectorName;
+};
+
+/**
+ * An opaque token shown in place of a redacted or truncated value, so that
+ * an approver's edited copy of `displayArgs` can be mapped back to the real
+ * args with `restoreArgPlaceholders`.
+ */
+export type ArgPlaceholder = {
+  /** The shown text followed by `~` and a random id, e.g. `[REDACTED]~1f0c93ab`. */
+  token: string;
+  /** JSON path of the value the token was issued for. */
+  path: string;
+  /** What the token hides. Never show this. */
+  value: unknown;
+  /**
+   * - `value`: the whole value at `path`
+   * - `span`: the masked part of the string at `path`
+   * - `items`: the array items past the shown ones
+   * - `keys`: the object properties past the shown ones
+   * - `dropped`: object properties a `drop` rule left out; never shown
+   */
+  kind: "value" | "span" | "items" | "keys" | "dropped";
+};
+
+export type ArgDisplayInspection = {
+  displayArgs: unknown;
+  /** One entry per detector and string; empty when no secret was found. */
+  secretDetections: ArgSecretDetection[];
+  /** Empty unless placeholders were asked for. */
+  placeholders: ArgPlaceholder[];
+};
+
+export type ArgPlaceholderRestore = {
+  args: unknown;
+  /** Placeholders found away from where they were issued; `args` is unusable when set. */
+  issues: McpArgsValidationIssue[];
+};
+
+/** Display options layered over inherited ones; see `mergeArgDisplayOptions`. */
+export type ArgDisplayOverride = Partial<ArgDisplayOptions> & {
+  /** Replace the inherited `rules` (with none, if `rules` is unset) instead of merging into them. */
+  replaceRules?: boolean;
+};
+
 const DEFAULT_REPLACEMENT = "[REDACTED]";
+const BUDGET_MARKER = "[TRUNCATED_BUDGET]";
+const MIN_HIDDEN_TEXT_LENGTH = 4;
+/** Text an edit must not send back: it only stands for values the approver never saw. */
+const TRUNCATION_MARKERS = ["...[TRUNCATED]", "[TRUNCATED_DEPTH]", "[TRUNCATED_ARRAY]", "[TRUNCATED_KEYS]", BUDGET_MARKER];
+/** Returned by `walkEntry` for a key a `drop` rule removes. */
+const DROPPED = Symbol("dropped");
+/** Bytes shown from the start of a buffer. */
+const BINARY_PREVIEW_BYTES = 32;
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+type WalkState = {
+  opts: ArgDisplayOptions;
+  detections: ArgSecretDetection[];
+  /** Set when redacted values are shown as placeholders. */
+  placeholders?: ArgPlaceholder[];
+  /** The objects enclosing the current value, with their paths. */
+  ancestors: Map<object, string>;
+  bytesLeft: number;
+};
+
+/**
+ * Keys fingerprints for this process, so a fingerprint shown to an approver
+ * or written to the audit log cannot be checked against guessed values
+ * elsewhere.
+ */
+const FINGERPRINT_SALT = randomHex(4);
 
 export function defaultArgDisplayOptions(): ArgDisplayOptions {
   return {
@@ -18,66 +139,579 @@ export function defaultArgDisplayOptions(): ArgDisplayOptions {
     maxStringLen: 500,
     maxArrayLen: 50,
     maxObjectKeys: 50,
+    maxTotalBytes: 32_768,
+    binaryPreview: "hex",
     rules: [
       { kind: "redactKey", key: "apiKey" },
       { kind: "redactKey", key: "token" },
-      { kind: "redactKey", key: "password" }
+      { kind: "redactKey", key: "password" },
+      { kind: "detectSecrets" }
     ]
   };
 }
 
+/**
+ * Layers `override` over `base`. Limits set in `override` win. Its `rules`
+ * are merged into the inherited ones: a rule with the same target (the same
+ * kind and key, pattern or path; or the same other kind) replaces the inherited rule in place,
+ * and other rules are appended. `replaceRules` drops the inherited rules.
+ */
+export function mergeArgDisplayOptions(base: ArgDisplayOptions, override?: ArgDisplayOverride): ArgDisplayOptions {
+  if (!override) return base;
+  const { replaceRules, rules, ...limits } = override;
+  return {
+    ...base,
+    ...limits,
+    rules: replaceRules ? (rules ?? []) : mergeArgRedactionRules(base.rules, rules ?? [])
+  };
+}
+
+/** Combines two overrides so that applying the result equals applying `base`, then `override`. */
+export function mergeArgDisplayOverrides(
+  base: ArgDisplayOverride | undefined,
+  override: ArgDisplayOverride | undefined
+): ArgDisplayOverride | undefined {
+  if (!base || !override) return override ?? base;
+  const { replaceRules, rules, ...limits } = override;
+  if (replaceRules) return { ...base, ...limits, replaceRules, rules: rules ?? [] };
+  return {
+    ...base,
+    ...limits,
+    ...(base.rules !== undefined || rules !== undefined
+      ? { rules: mergeArgRedactionRules(base.rules ?? [], rules ?? []) }
+      : {})
+  };
+}
+
+/**
+ * Makes `input` safe to show to a human: JSON-compatible, redacted and
+ * bounded. Beyond plain JSON values:
+ *
+ * - dates become ISO strings, URLs their `href`, bigints `"123n"`
+ * - `Map` and `Set` become `{ __type__, size, entries | values }`
+ * - buffers and typed arrays become `{ __type__, byteLength, hex | base64 }`
+ *   with a preview of the first bytes
+ * - errors and class instances become their own enumerable fields plus
+ *   `__type__` (and `message` for errors)
+ * - an object inside itself becomes `[CIRCULAR:<path of the outer one>]`
+ */
 export function prepareArgsForDisplay(
   input: unknown,
   opts: ArgDisplayOptions
 ): unknown {
-  return walk(input, opts, 0);
+  return inspectArgsForDisplay(input, opts).displayArgs;
 }
 
-function walk(value: unknown, opts: ArgDisplayOptions, depth: number): unknown {
-  if (depth > opts.maxDepth) return "[TRUNCATED_DEPTH]";
+/**
+ * Like `prepareArgsForDisplay`, and also reports which secret detectors fired
+ * where. With `placeholders`, every redacted value, masked secret and
+ * truncated value is shown as a distinct `ArgPlaceholder` token instead of
+ * the bare marker, and cut-off object keys as `__truncated__: "[TRUNCATED_KEYS]~…"`.
+ */
+export function inspectArgsForDisplay(
+  input: unknown,
+  opts: ArgDisplayOptions,
+  inspectOpts: { placeholders?: boolean } = {}
+): ArgDisplayInspection {
+  const state: WalkState = {
+    opts,
+    detections: [],
+    ...(inspectOpts.placeholders ? { placeholders: [] } : {}),
+    ancestors: new Map(),
+    bytesLeft: opts.maxTotalBytes
+  };
+  const displayArgs = walk(input, state, 0, "$", []);
+  return { displayArgs, secretDetections: state.detections, placeholders: state.placeholders ?? [] };
+}
 
-  if (typeof value === "string") {
-    return truncateString(value, opts.maxStringLen);
+/**
+ * Redacts free text about a call, such as a preview, like its args: each
+ * string a rule hides in `args` is replaced by its marker wherever it shows
+ * up in `text`, and `detectSecrets` rules mask the rest. Strings shorter than
+ * four characters are left alone, as they would match all over the text.
+ */
+export function redactTextForDisplay(text: string, args: unknown, opts: ArgDisplayOptions): string {
+  const unlimited = Number.MAX_SAFE_INTEGER;
+  const { placeholders } = inspectArgsForDisplay(
+    args,
+    {
+      ...opts,
+      maxDepth: unlimited,
+      maxStringLen: unlimited,
+      maxArrayLen: unlimited,
+      maxObjectKeys: unlimited,
+      maxTotalBytes: unlimited
+    },
+    { placeholders: true }
+  );
+  const hidden = new Map<string, string>();
+  for (const issued of placeholders) {
+    const marker = issued.token.slice(0, issued.token.lastIndexOf("~"));
+    for (const value of collectStringLeaves(issued.value)) {
+      if (value.length >= MIN_HIDDEN_TEXT_LENGTH && !hidden.has(value)) hidden.set(value, marker);
+    }
   }
-  if (typeof value === "number" || typeof value === "boolean" || value === null) {
-    return value;
+  let redacted = text;
+  for (const [value, marker] of [...hidden].sort(([a], [b]) => b.length - a.length)) {
+    redacted = redacted.split(value).join(marker);
   }
+  const state: WalkState = { opts, detections: [], ancestors: new Map(), bytesLeft: unlimited };
+  return applySecretDetection(redacted, "$", state);
+}
+
+/**
+ * Maps an edited copy of `displayArgs` back to real args. A placeholder left
+ * as the whole value restores the original value; one left inside a longer
+ * string restores that part of the string; a truncated array's or object's
+ * placeholder restores the items or keys that were cut off. Edited values
+ * are kept as they are. A placeholder that turns up at any other path, and
+ * a truncation marker left in an edited value, are reported as issues, so
+ * neither a moved secret nor a cut-off value reaches the tool.
+ */
+export function restoreArgPlaceholders(edited: unknown, placeholders: ArgPlaceholder[]): ArgPlaceholderRestore {
+  const issues: McpArgsValidationIssue[] = [];
+  const args = restoreValue(edited, "$", placeholders, issues);
+  return { args, issues };
+}
+
+function restoreValue(
+  value: unknown,
+  path: string,
+  placeholders: ArgPlaceholder[],
+  issues: McpArgsValidationIssue[]
+): unknown {
   if (Array.isArray(value)) {
-    const sliced = value.slice(0, opts.maxArrayLen);
-    const mapped = sliced.map((v) => walk(v, opts, depth + 1));
-    if (value.length > sliced.length) mapped.push("[TRUNCATED_ARRAY]");
-    return mapped;
+    const out: unknown[] = [];
+    value.forEach((item, index) => {
+      const tail = findTailPlaceholder(placeholders, "items", path, item);
+      if (tail) out.push(...(tail.value as unknown[]));
+      else out.push(restoreValue(item, `${path}[${index}]`, placeholders, issues));
+    });
+    return out;
   }
-  if (typeof value === "object") {
-    const obj = value as Record<string, unknown>;
+  if (typeof value === "object" && value !== null) {
     const out: Record<string, unknown> = {};
-    const keys = Object.keys(obj).slice(0, opts.maxObjectKeys);
-    for (const key of keys) {
-      const redacted = applyKeyRedactions(key, opts.rules);
-      if (redacted !== undefined) {
-        out[key] = redacted;
+    let hidden: Record<string, unknown> | undefined;
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "__truncated__") {
+        hidden = findTailPlaceholder(placeholders, "keys", path, child)?.value as Record<string, unknown> | undefined;
+        if (!hidden) issues.push({ path: childPath(path, key), message: "marks keys that were not shown" });
         continue;
       }
-      out[key] = walk(obj[key], opts, depth + 1);
+      out[key] = restoreValue(child, childPath(path, key), placeholders, issues);
+    }
+    const dropped = placeholders.filter((placeholder) => placeholder.kind === "dropped" && placeholder.path === path);
+    for (const restored of [hidden, ...dropped.map((placeholder) => placeholder.value)]) {
+      for (const [key, child] of Object.entries((restored ?? {}) as Record<string, unknown>)) {
+        if (!(key in out)) out[key] = child;
+      }
     }
-    if (Object.keys(obj).length > keys.length) out["__truncated__"] = true;
     return out;
   }
-  return "[UNSERIALIZABLE]";
+  if (typeof value !== "string") return value;
+
+  const found = placeholders.filter((placeholder) => value.includes(placeholder.token));
+  const moved = found.filter((placeholder) => placeholder.path !== path);
+  for (const placeholder of moved) {
+    issues.push({ path, message: `holds the placeholder for ${placeholder.path}` });
+  }
+  if (moved.length > 0) return value;
+
+  const whole = found.find((placeholder) => placeholder.token === value && placeholder.kind === "value");
+  if (whole) return whole.value;
+
+  if (found.some((placeholder) => placeholder.kind !== "span")) {
+    issues.push({ path, message: "a placeholder for a whole value must be kept whole" });
+    return value;
+  }
+  const unmasked = found.reduce((text, placeholder) => text.split(placeholder.token).join(""), value);
+  if (TRUNCATION_MARKERS.some((marker) => unmasked.includes(marker))) {
+    issues.push({ path, message: "was edited from a truncated copy; edit the whole value or leave it as shown" });
+    return value;
+  }
+
+  // Latest first: a secret masked twice is unwrapped one token at a time.
+  let restored = value;
+  for (const placeholder of [...placeholders].reverse()) {
+    if (placeholder.path !== path || !restored.includes(placeholder.token)) continue;
+    restored = restored.split(placeholder.token).join(placeholder.value as string);
+  }
+  return restored;
+}
+
+function collectStringLeaves(value: unknown, seen = new Set<object>()): string[] {
+  if (typeof value === "string") return [value];
+  if (typeof value !== "object" || value === null || seen.has(value)) return [];
+  seen.add(value);
+  if (Array.isArray(value)) return value.flatMap((item) => collectStringLeaves(item, seen));
+  if (isPlainObject(value)) return Object.values(value).flatMap((item) => collectStringLeaves(item, seen));
+  return [];
+}
+
+function findTailPlaceholder(
+  placeholders: ArgPlaceholder[],
+  kind: "items" | "keys",
+  path: string,
+  shown: unknown
+): ArgPlaceholder | undefined {
+  if (typeof shown !== "string") return undefined;
+  return placeholders.find(
+    (placeholder) => placeholder.kind === kind && placeholder.path === path && placeholder.token === shown
+  );
+}
+
+function walk(value: unknown, state: WalkState, depth: number, path: string, segments: JsonPathSegment[]): unknown {
+  const { opts } = state;
+  if (depth > opts.maxDepth) return placeholder(state, "[TRUNCATED_DEPTH]", path, value);
+
+  if (typeof value === "string") {
+    const masked = applySecretDetection(value, path, state);
+    const shown = truncateString(masked, opts.maxStringLen);
+    return spend(state, shown === masked ? shown : placeholder(state, shown, path, value), path, value);
+  }
+  if (typeof value === "number" || typeof value === "boolean" || value === null) {
+    return spend(state, value, path, value);
+  }
+  if (typeof value === "bigint") return spend(state, `${value}n`);
+  if (typeof value !== "object") return "[UNSERIALIZABLE]";
+
+  const enclosingPath = state.ancestors.get(value);
+  if (enclosingPath !== undefined) return spend(state, `[CIRCULAR:${enclosingPath}]`);
+  state.ancestors.set(value, path);
+  try {
+    return walkObject(value, state, depth, path, segments);
+  } finally {
+    state.ancestors.delete(value);
+  }
 }
 
-function applyKeyRedactions(
+function walkObject(value: object, state: WalkState, depth: number, path: string, segments: JsonPathSegment[]): unknown {
+  if (Array.isArray(value)) return walkItems(value, state, depth, path, segments);
+  if (value instanceof Date) {
+    return spend(state, Number.isNaN(value.getTime()) ? "[INVALID_DATE]" : value.toISOString());
+  }
+  if (typeof URL !== "undefined" && value instanceof URL) return walk(value.href, state, depth, path, segments);
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return describeBytes(value, state);
+  if (value instanceof Map) return walkMap(value, state, depth, path, segments);
+  if (value instanceof Set) {
+    return {
+      __type__: "Set",
+      size: value.size,
+      values: walkItems([...value], state, depth, path, segments)
+    };
+  }
+  if (value instanceof Error) {
+    const fields = { message: value.message, ...(value as unknown as Record<string, unknown>) };
+    return { __type__: value.name, ...walkProperties(fields, state, depth, path, segments) };
+  }
+
+  const properties = walkProperties(value as Record<string, unknown>, state, depth, path, segments);
+  const prototype: unknown = Object.getPrototypeOf(value);
+  if (prototype === Object.prototype || prototype === null) return properties;
+  return { __type__: typeName(value), ...properties };
+}
+
+function walkItems(
+  items: unknown[],
+  state: WalkState,
+  depth: number,
+  path: string,
+  segments: JsonPathSegment[]
+): unknown[] {
+  const sliced = items.slice(0, state.opts.maxArrayLen);
+  const mapped: unknown[] = [];
+  let shownCount = sliced.length;
+  for (const [index, item] of sliced.entries()) {
+    if (state.bytesLeft <= 0) {
+      shownCount = index;
+      break;
+    }
+    const childSegments: JsonPathSegment[] = [...segments, { kind: "index", index }];
+    const rule = findRedactionRule(undefined, childSegments, state.opts.rules);
+    if (rule?.mode === "drop") {
+      if (state.placeholders) mapped.push(spend(state, placeholder(state, "[DROPPED]", `${path}[${index}]`, item)));
+      continue;
+    }
+    mapped.push(
+      rule
+        ? spend(state, placeholder(state, redactedValue(rule, item), `${path}[${index}]`, item), `${path}[${index}]`, item)
+        : walk(item, state, depth + 1, `${path}[${index}]`, childSegments)
+    );
+  }
+  if (items.length > shownCount) {
+    mapped.push(placeholder(state, "[TRUNCATED_ARRAY]", path, items.slice(shownCount), "items"));
+  }
+  return mapped;
+}
+
+function walkProperties(
+  obj: Record<string, unknown>,
+  state: WalkState,
+  depth: number,
+  path: string,
+  segments: JsonPathSegment[]
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  const allKeys = Object.keys(obj);
+  const keys = allKeys.slice(0, state.opts.maxObjectKeys);
+  let shownCount = keys.length;
+  for (const [index, key] of keys.entries()) {
+    if (state.bytesLeft <= 0) {
+      shownCount = index;
+      break;
+    }
+    const entry = walkEntry(key, obj[key], state, depth, childPath(path, key), segments);
+    if (entry !== DROPPED) out[key] = entry;
+    else placeholder(state, "[DROPPED]", path, { [key]: obj[key] }, "dropped");
+  }
+  if (allKeys.length > shownCount) {
+    const hidden = Object.fromEntries(allKeys.slice(shownCount).map((key) => [key, obj[key]]));
+    out["__truncated__"] = state.placeholders ? placeholder(state, "[TRUNCATED_KEYS]", path, hidden, "keys") : true;
+  }
+  return out;
+}
+
+/** String keys are matched by the redaction rules like object keys; other keys are shown as values. */
+function walkMap(
+  map: Map<unknown, unknown>,
+  state: WalkState,
+  depth: number,
+  path: string,
+  segments: JsonPathSegment[]
+): Record<string, unknown> {
+  const entries: unknown[] = [];
+  let truncated = map.size > state.opts.maxObjectKeys;
+  let index = 0;
+  for (const [key, value] of map) {
+    if (index >= state.opts.maxObjectKeys) break;
+    if (state.bytesLeft <= 0) {
+      truncated = true;
+      break;
+    }
+    if (typeof key === "string") {
+      const entry = walkEntry(key, value, state, depth, childPath(path, key), segments);
+      if (entry !== DROPPED) entries.push([key, entry]);
+    } else {
+      const childSegments: JsonPathSegment[] = [...segments, { kind: "index", index }];
+      entries.push([
+        walk(key, state, depth + 1, `${path}[${index}]`, childSegments),
+        walk(value, state, depth + 1, `${path}[${index}]`, childSegments)
+      ]);
+    }
+    index += 1;
+  }
+  return { __type__: "Map", size: map.size, entries, ...(truncated ? { __truncated__: true } : {}) };
+}
+
+function walkEntry(
   key: string,
+  value: unknown,
+  state: WalkState,
+  depth: number,
+  path: string,
+  segments: JsonPathSegment[]
+): unknown {
+  const childSegments: JsonPathSegment[] = [...segments, { kind: "key", key }];
+  const rule = findRedactionRule(key, childSegments, state.opts.rules);
+  if (rule?.mode === "drop") return DROPPED;
+  state.bytesLeft -= utf8Length(key) + 4;
+  if (rule) return spend(state, placeholder(state, redactedValue(rule, value), path, value), path, value);
+  return walk(value, state, depth + 1, path, childSegments);
+}
+
+function describeBytes(value: ArrayBuffer | ArrayBufferView, state: WalkState): Record<string, unknown> {
+  const bytes =
+    value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  const preview = bytes.subarray(0, BINARY_PREVIEW_BYTES);
+  const encoding = state.opts.binaryPreview;
+  const text =
+    encoding === "base64" ? toBase64(preview) : [...preview].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+  return {
+    __type__: typeName(value),
+    byteLength: bytes.byteLength,
+    [encoding]: spend(state, bytes.byteLength > preview.byteLength ? `${text}...[TRUNCATED]` : text)
+  };
+}
+
+function typeName(value: object): string {
+  const constructor = (value as { constructor?: { name?: unknown } }).constructor;
+  return typeof constructor?.name === "string" && constructor.name.length > 0 ? constructor.name : "Object";
+}
+
+/**
+ * Charges a leaf value against the output budget. Past it, the value shows
+ * as the budget marker, a placeholder for `original` when `path` is given.
+ */
+function spend<T extends string | number | boolean | null>(
+  state: WalkState,
+  value: T,
+  path?: string,
+  original?: unknown
+): T | string {
+  const bytes = utf8Length(JSON.stringify(value));
+  if (bytes > state.bytesLeft) {
+    state.bytesLeft = 0;
+    return path !== undefined ? placeholder(state, BUDGET_MARKER, path, original) : BUDGET_MARKER;
+  }
+  state.bytesLeft -= bytes;
+  return value;
+}
+
+function utf8Length(text: string): number {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i += 1) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code < 0xdc00) {
+      bytes += 4;
+      i += 1;
+    } else bytes += 3;
+  }
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i]! << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    out += BASE64_ALPHABET[(chunk >> 18) & 63]! + BASE64_ALPHABET[(chunk >> 12) & 63]!;
+    out += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63]! : "=";
+    out += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63]! : "=";
+  }
+  return out;
+}
+
+function mergeArgRedactionRules(base: ArgRedactionRule[], added: ArgRedactionRule[]): ArgRedactionRule[] {
+  const merged = [...base];
+  for (const rule of added) {
+    const index = merged.findIndex((existing) => redactionRuleTarget(existing) === redactionRuleTarget(rule));
+    if (index >= 0) merged[index] = rule;
+    else merged.push(rule);
+  }
+  return merged;
+}
+
+function redactionRuleTarget(rule: ArgRedactionRule): string {
+  switch (rule.kind) {
+    case "redactKey":
+      return `redactKey:${rule.key}`;
+    case "redactKeyIgnoreCase":
+      return `redactKeyIgnoreCase:${rule.key.toLowerCase()}`;
+    case "redactKeyPattern":
+      return `redactKeyPattern:/${rule.pattern}/${rule.flags ?? ""}`;
+    case "redactPath":
+      return `redactPath:${rule.path}`;
+    default:
+      return rule.kind;
+  }
+}
+
+function applySecretDetection(value: string, path: string, state: WalkState): string {
+  let masked = value;
+  for (const rule of state.opts.rules) {
+    if (rule.kind !== "detectSecrets") continue;
+    const result = maskSecrets(masked, rule.detectors, rule.replacement, (marker, secret) =>
+      placeholder(state, marker, path, secret, "span")
+    );
+    masked = result.text;
+    for (const detector of result.detectors) state.detections.push({ path, detector });
+  }
+  return masked;
+}
+
+/** `text`, or a new placeholder token for `value` when placeholders are on. */
+function placeholder(
+  state: WalkState,
+  text: string,
+  path: string,
+  value: unknown,
+  kind: ArgPlaceholder["kind"] = "value"
+): string {
+  const issued = state.placeholders;
+  if (!issued) return text;
+  let token: string;
+  do token = `${text}~${randomHex(1)}`;
+  while (issued.some((existing) => existing.token === token));
+  issued.push({ token, path, value, kind });
+  return token;
+}
+
+/**
+ * The first rule that redacts the value at `segments`. `key` is the
+ * property name, or `undefined` for an array item, which only path rules
+ * can match.
+ */
+function findRedactionRule(
+  key: string | undefined,
+  segments: JsonPathSegment[],
   rules: ArgRedactionRule[]
-): string | undefined {
+): KeyRedactionRule | undefined {
   for (const rule of rules) {
-    if (rule.kind !== "redactKey") continue;
-    if (key !== rule.key) continue;
-    return rule.replacement ?? DEFAULT_REPLACEMENT;
+    switch (rule.kind) {
+      case "redactKey":
+        if (key === rule.key) return rule;
+        break;
+      case "redactKeyIgnoreCase":
+        if (key !== undefined && key.toLowerCase() === rule.key.toLowerCase()) return rule;
+        break;
+      case "redactKeyPattern":
+        if (key !== undefined && compileConditionRegex(rule.pattern, rule.flags).test(key)) return rule;
+        break;
+      case "redactPath":
+        if (matchesPathSegments(parseJsonPath(rule.path), segments)) return rule;
+        break;
+    }
   }
   return undefined;
 }
 
+function matchesPathSegments(pattern: JsonPathSegment[], segments: JsonPathSegment[]): boolean {
+  if (pattern.length !== segments.length) return false;
+  return pattern.every((expected, index) => {
+    const actual = segments[index]!;
+    if (expected.kind === "wildcard") return true;
+    if (expected.kind === "key") return actual.kind === "key" && actual.key === expected.key;
+    return actual.kind === "index" && actual.index === expected.index;
+  });
+}
+
+function redactedValue(rule: KeyRedactionRule, value: unknown): string {
+  const replacement = rule.replacement ?? DEFAULT_REPLACEMENT;
+  if (rule.mode !== "fingerprint") return replacement;
+  const hash = fingerprintValue(value);
+  return replacement === DEFAULT_REPLACEMENT ? `[REDACTED#${hash}]` : `${replacement}#${hash}`;
+}
+
+/** 48 bits of a salted FNV-1a hash; enough to tell values apart on screen. */
+function fingerprintValue(value: unknown): string {
+  let serialized: string;
+  try {
+    serialized = fingerprintArgs(value);
+  } catch {
+    // Bigints and cycles do not serialize.
+    serialized = String(value);
+  }
+  const text = FINGERPRINT_SALT + serialized;
+  let high = 0x811c9dc5;
+  let low = 0x050c5d1f;
+  for (let i = 0; i < text.length; i += 1) {
+    const code = text.charCodeAt(i);
+    high = Math.imul(high ^ code, 0x01000193) >>> 0;
+    low = Math.imul(low ^ code ^ (high >>> 16), 0x01000193) >>> 0;
+  }
+  return (high.toString(16).padStart(8, "0") + low.toString(16).padStart(8, "0")).slice(0, 12);
+}
+
+function randomHex(wordCount: number): string {
+  const cryptoObj = (globalThis as unknown as { crypto?: { getRandomValues?: (array: Uint32Array) => Uint32Array } })
+    .crypto;
+  const words = new Uint32Array(wordCount);
+  if (cryptoObj?.getRandomValues) cryptoObj.getRandomValues(words);
+  else for (let i = 0; i < words.length; i += 1) words[i] = Math.floor(Math.random() * 0x1_0000_0000);
+  return [...words].map((word) => word.toString(16).padStart(8, "0")).join("");
+}
+
 function truncateString(value: string, maxLen: number): string {
   if (value.length <= maxLen) return value;
   return value.slice(0, maxLen) + "...[TRUNCATED]";
@@ -0,0 +1,213 @@
+import { maskSecrets, type SecretDetectorName } from "./secret-detectors.js";
+import type { McpRiskClass, McpToolCall } from "./types.js";
+
+export type McpRiskSignal = {
+  /** Points added to the call's score. */
+  score: number;
+  reason: string;
+};
+
+export type McpRiskContext = {
+  /** Absolute POSIX path; paths outside it raise the score. */
+  workspaceRoot?: string;
+};
+
+/** One heuristic; returns a signal for each risky thing it finds in the call. */
+export type McpRiskHeuristic = (call: McpToolCall, ctx: McpRiskContext) => McpRiskSignal[];
+
+export type McpRiskAssessment = {
+  /** Sum of all signals, capped at 100. */
+  score: number;
+  risk: McpRiskClass;
+  reasons: string[];
+};
+
+export type McpRiskScorer = (call: McpToolCall) => McpRiskAssessment;
+
+export type HeuristicRiskScorerOptions = McpRiskContext & {
+  heuristics?: McpRiskHeuristic[];
+  /** Lowest score for each class; defaults to medium 30, high 60. */
+  thresholds?: { medium: number; high: number };
+};
+
+const MAX_SCORE = 100;
+const LARGE_DELETION_ITEMS = 10;
+
+const DESTRUCTIVE_COMMANDS: Array<{ pattern: RegExp; label: string; score: number }> = [
+  { pattern: /\brm\s+(?:-\w*[rf]\w*\s+)+/, label: "rm -r/-f", score: 50 },
+  { pattern: /\bmkfs(?:\.\w+)?\b/, label: "mkfs", score: 60 },
+  { pattern: /\bdd\s+[^|;&]*\bof=\/dev\//, label: "dd to a device", score: 60 },
+  { pattern: /\bgit\s+push\b[^|;&]*(?:--force\b|\s-f\b)/, label: "git push --force", score: 40 },
+  { pattern: /\bgit\s+reset\s+--hard\b/, label: "git reset --hard", score: 30 },
+  { pattern: /\bgit\s+clean\s+-\w*f/, label: "git clean -f", score: 30 },
+  { pattern: /\bdrop\s+(?:table|database|schema)\b/i, label: "DROP", score: 50 },
+  { pattern: /\btruncate\s+table\b/i, label: "TRUNCATE TABLE", score: 40 },
+  { pattern: /\bdelete\s+from\s+\w+\s*(?:;|$)/i, label: "DELETE without WHERE", score: 40 },
+  { pattern: /\bchmod\s+(?:-R\s+)?0?777\b/, label: "chmod 777", score: 30 },
+  { pattern: /\b(?:shutdown|reboot|halt|poweroff)\b/, label: "shutdown", score: 40 },
+  { pattern: /:\(\)\s*\{\s*:\|:&\s*\};:/, label: "fork bomb", score: 60 },
+  { pattern: /\b(?:curl|wget)\b[^|;&]*\|\s*(?:sudo\s+)?(?:ba|z)?sh\b/, label: "pipe to shell", score: 40 }
+];
+
+const URL_PATTERN = /\b(?:https?|wss?|ftp):\/\/[^\s"'<>]+/gi;
+const DELETION_TOOL_PATTERN = /(?:delete|remove|destroy|drop|purge|erase|unlink|rmdir|(?:^|[._-])rm(?:$|[._-]))/i;
+
+/**
+ * Built-in heuristics, keyed by name so callers can pick a subset.
+ */
+export const RISK_HEURISTICS = {
+  destructiveShell(call) {
+    const signals: McpRiskSignal[] = [];
+    const seen = new Set<string>();
+    for (const value of collectStrings(call.args)) {
+      for (const command of DESTRUCTIVE_COMMANDS) {
+        if (seen.has(command.label) || !command.pattern.test(value)) continue;
+        seen.add(command.label);
+        signals.push({ score: command.score, reason: `Destructive command: ${command.label}` });
+      }
+    }
+    return signals;
+  },
+
+  pathOutsideWorkspace(call, ctx) {
+    if (!ctx.workspaceRoot) return [];
+    const root = normalizePosixPath(ctx.workspaceRoot);
+    const outside = new Set<string>();
+    for (const value of collectStrings(call.args)) {
+      for (const token of value.split(/\s+/)) {
+        const candidate = token.replace(/^["'=]+|["';,)]+$/g, "");
+        if (!looksLikePath(candidate)) continue;
+        if (candidate.startsWith("~")) {
+          outside.add(candidate);
+          continue;
+        }
+        const resolved = normalizePosixPath(candidate.startsWith("/") ? candidate : `${root}/${candidate}`);
+        if (resolved !== root && !resolved.startsWith(root === "/" ? "/" : `${root}/`)) outside.add(candidate);
+      }
+    }
+    return [...outside].map((candidate) => ({ score: 25, reason: `Path outside the workspace: ${candidate}` }));
+  },
+
+  networkTarget(call) {
+    const hosts = new Map<string, McpRiskSignal>();
+    for (const value of collectStrings(call.args)) {
+      for (const match of value.matchAll(URL_PATTERN)) {
+        let url: URL;
+        try {
+          url = new URL(match[0]);
+        } catch {
+          continue;
+        }
+        if (hosts.has(url.host)) continue;
+        const insecure = url.protocol === "http:" || url.protocol === "ws:" || url.protocol === "ftp:";
+        const ipLiteral = /^\d{1,3}(?:\.\d{1,3}){3}$/.test(url.hostname) || url.hostname.startsWith("[");
+        const notes = [insecure ? "unencrypted" : undefined, ipLiteral ? "IP address" : undefined].filter(Boolean);
+        hosts.set(url.host, {
+          score: 10 + (insecure ? 10 : 0) + (ipLiteral ? 10 : 0),
+          reason: `Network target: ${url.host}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`
+        });
+      }
+    }
+    return [...hosts.values()];
+  },
+
+  largeDeletion(call) {
+    if (!DELETION_TOOL_PATTERN.test(call.toolName)) return [];
+    const signals: McpRiskSignal[] = [{ score: 20, reason: `Tool '${call.toolName}' deletes data` }];
+    const largest = largestArrayLength(call.args);
+    if (largest >= LARGE_DELETION_ITEMS) {
+      signals.push({ score: 30, reason: `Deletes ${largest} items in one call` });
+    }
+    if (hasTruthyKey(call.args, /^(?:recursive|force|all)$/i)) {
+      signals.push({ score: 20, reason: "Recursive or forced deletion" });
+    }
+    return signals;
+  },
+
+  secretValue(call) {
+    const found = new Set<SecretDetectorName>();
+    for (const value of collectStrings(call.args)) {
+      for (const detector of maskSecrets(value).detectors) found.add(detector);
+    }
+    return [...found].map((detector) => ({ score: 40, reason: `Secret-looking value: ${detector}` }));
+  }
+} satisfies Record<string, McpRiskHeuristic>;
+
+export function defaultRiskHeuristics(): McpRiskHeuristic[] {
+  return Object.values(RISK_HEURISTICS);
+}
+
+/**
+ * Scores a call by summing the signals of every heuristic. The score maps to
+ * a risk class the gate uses to raise, never lower, the policy's risk.
+ */
+export function createHeuristicRiskScorer(opts: HeuristicRiskScorerOptions = {}): McpRiskScorer {
+  const heuristics = opts.heuristics ?? defaultRiskHeuristics();
+  const thresholds = opts.thresholds ?? { medium: 30, high: 60 };
+  const ctx: McpRiskContext = opts.workspaceRoot !== undefined ? { workspaceRoot: opts.workspaceRoot } : {};
+
+  return (call) => {
+    const signals = heuristics.flatMap((heuristic) => heuristic(call, ctx));
+    const score = Math.min(
+      MAX_SCORE,
+      signals.reduce((sum, signal) => sum + Math.max(0, signal.score), 0)
+    );
+    const risk: McpRiskClass = score >= thresholds.high ? "high" : score >= thresholds.medium ? "medium" : "low";
+    return { score, risk, reasons: signals.map((signal) => signal.reason) };
+  };
+}
+
+const RISK_ORDER: Record<McpRiskClass, number> = { low: 0, medium: 1, high: 2 };
+
+export function maxRiskClass(a: McpRiskClass, b: McpRiskClass): McpRiskClass {
+  return RISK_ORDER[a] >= RISK_ORDER[b] ? a : b;
+}
+
+function collectStrings(value: unknown, out: string[] = [], depth = 0): string[] {
+  if (depth > 16) return out;
+  if (typeof value === "string") {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, out, depth + 1);
+  } else if (typeof value === "object" && value !== null) {
+    for (const item of Object.values(value)) collectStrings(item, out, depth + 1);
+  }
+  return out;
+}
+
+function largestArrayLength(value: unknown, depth = 0): number {
+  if (depth > 16 || typeof value !== "object" || value === null) return 0;
+  const children = Array.isArray(value) ? value : Object.values(value);
+  const own = Array.isArray(value) ? value.length : 0;
+  return children.reduce<number>((max, child) => Math.max(max, largestArrayLength(child, depth + 1)), own);
+}
+
+function hasTruthyKey(value: unknown, key: RegExp, depth = 0): boolean {
+  if (depth > 16 || typeof value !== "object" || value === null) return false;
+  if (Array.isArray(value)) return value.some((item) => hasTruthyKey(item, key, depth + 1));
+  return Object.entries(value).some(
+    ([name, child]) => (key.test(name) && child === true) || hasTruthyKey(child, key, depth + 1)
+  );
+}
+
+function looksLikePath(token: string): boolean {
+  if (token.length < 2 || token.includes("://")) return false;
+  return (
+    token.startsWith("/") ||
+    token.startsWith("~/") ||
+    token === "~" ||
+    token.startsWith("../") ||
+    token === ".." ||
+    token.includes("/../")
+  );
+}
+
+function normalizePosixPath(input: string): string {
+  const parts: string[] = [];
+  for (const part of input.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+  return `/${parts.join("/")}`;
+}
@@ -8,6 +8,8 @@ import { z } from "zod";
 
 import {
   ASK_USER_OPTION_LIMIT,
+  pickAskUserAnswerConstraints,
+  type AskUserAnswer,
   type AskUserToolInput
 } from "./ask-user.js";
 import {
@@ -15,27 +17,89 @@ import {
   enqueueAskUserPrompt,
   waitForAskUserResponse
 } from "./ask-user-bridge.js";
+import { createAskUserBridgeApprovalAdapter } from "./approval-bridge-adapter.js";
 import { autolaunchAskUserResponder } from "./ask-user-autolaunch.js";
+import { createJsonlAuditSink } from "./audit.js";
+import { resolveCallerContext } from "./caller-context.js";
+import {
+  AskUserPromptCancelledError,
+  McpApprovalArgsValidationError,
+  McpCallBudgetExceededError,
+  McpHumanApprovalCancelledError,
+  McpHumanApprovalDeniedError,
+  McpHumanApprovalTimeoutError
+} from "./errors.js";
+import { createMcpHumanInLoopGate, type McpHumanInLoopGate } from "./gate.js";
+import { defaultMcpApprovalPolicy } from "./policy.js";
+import { watchMcpApprovalPolicy } from "./policy-loader.js";
+import { createHeuristicRiskScorer } from "./risk.js";
+import type { McpCallerContext, McpRiskClass, McpToolArgs } from "./types.js";
 
 const ASK_USER_TIMEOUT_MS = 5 * 60 * 1000;
 
+/**
+ * Prefix of the tool names `handraise_request_approval` requests are matched
+ * under, so an agent cannot pass its action off as an allowlisted tool.
+ */
+export const SELF_GATE_TOOL_PREFIX = "self.";
+
+export type HandraiseMcpServerOptions = {
+  /**
+   * Decides `handraise_request_approval` requests. Defaults to a gate that asks
+   * through the askUser bridge for every request.
+   */
+  gate?: McpHumanInLoopGate;
+};
+
+export type SelfGateResult =
+  | { decision: "approve"; editedArgs?: McpToolArgs }
+  | { decision: "deny"; reason?: string };
+
 const AskUserOptionSchema = z.object({
   label: z.string().min(1),
   description: z.string().optional()
 });
 
-export function createHandraiseMcpServer(): McpServer {
+const RegexSourceSchema = z.string().refine(
+  (value) => {
+    try {
+      new RegExp(value, "u");
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Invalid regular expression" }
+);
+
+export function createHandraiseMcpServer(opts: HandraiseMcpServerOptions = {}): McpServer {
   const server = new McpServer({
     name: "raisehand",
     version: "0.1.0"
   });
+  const gate =
+    opts.gate ??
+    createMcpHumanInLoopGate({ policy: defaultMcpApprovalPolicy(), handraise: createAskUserBridgeApprovalAdapter() });
+  const processSessionId = randomUUID();
+  const callerContext = (extra: {
+    sessionId?: string;
+    _meta?: Record<string, unknown>;
+  }): Promise<McpCallerContext> => {
+    const agent = server.server.getClientVersion();
+    return resolveCallerContext({
+      ...(agent !== undefined ? { agent } : {}),
+      sessionId: extra.sessionId ?? processSessionId,
+      workspace: process.cwd(),
+      ...(extra._meta !== undefined ? { meta: extra._meta } : {})
+    });
+  };
 
   server.registerTool(
     "handraise_ask_user",
     {
       title: "Ask user",
       description:
-        "Primary human-input tool for AI agents. Ask one clear question, optionally include readyAnswers for quick one-tap picks, and optionally allow custom text. The reply is collected through the raisehand TUI/CLI responder and returned as structured output without requiring a new chat message.",
+        "Primary human-input tool for AI agents. Ask one clear question, optionally include readyAnswers for quick one-tap picks, and optionally allow custom text. Set answerType (number, integer, boolean) with min/max, or pattern/format for text, to get a checked, typed answer; minItems/maxItems bound multi-select picks. The reply is collected through the raisehand TUI/CLI responder and returned as structured output without requiring a new chat message.",
       inputSchema: {
         header: z.string().optional(),
         question: z.string().min(1),
@@ -44,10 +108,20 @@ export function createHandraiseMcpServer(): McpServer {
         multiple: z.boolean().optional(),
         custom: z.boolean().optional(),
         customLabel: z.string().optional(),
+        answerType: z.enum(["string", "number", "integer", "boolean"]).optional(),
+        min: z.number().optional(),
+        max: z.number().optional(),
+        pattern: RegexSourceSchema.optional(),
+        format: z.enum(["email", "uri", "date", "date-time"]).optional(),
+        minItems: z.number().int().nonnegative().optional(),
+        maxItems: z.number().int().positive().optional(),
         waitTimeoutMs: z.number().int().positive().max(60 * 60 * 1000).optional()
       }
     },
-    async ({ header, question, options, readyAnswers, multiple, custom, customLabel, waitTimeoutMs }) => {
+    async (
+      { header, question, options, readyAnswers, multiple, custom, customLabel, waitTimeoutMs, ...constraints },
+      extra
+    ) => {
       const askInput: AskUserToolInput = { question };
       if (header !== undefined) askInput.header = header;
       if (options !== undefined) askInput.options = options;
@@ -55,17 +129,65 @@ export function createHandraiseMcpServer(): McpServer {
       if (multiple !== undefined) askInput.multiple = multiple;
       if (custom !== undefined) askInput.custom = custom;
       if (customLabel !== undefined) askInput.customLabel = customLabel;
+      Object.assign(askInput, pickAskUserAnswerConstraints(constraints));
 
       const resolvedTimeoutMs = resolveAskUserTimeoutMs(waitTimeoutMs);
-      return askUserViaCliBridge(askInput, resolvedTimeoutMs);
+      const context = await callerContext(extra);
+      // The SDK aborts `extra.signal` on `notifications/cancelled` for this request.
+      return askUserViaCliBridge(askInput, resolvedTimeoutMs, extra.signal, context);
+    }
+  );
+
+  server.registerTool(
+    "handraise_request_approval",
+    {
+      title: "Request approval",
+      description:
+        "Ask a human to approve a risky action before you take it yourself, e.g. a migration or deploy run from your own shell. Describe the action, rate its risk and pass the relevant args. The request goes through the approval policy and the raisehand TUI/CLI responder. Proceed only if the result's decision is \"approve\", using editedArgs when present; on \"deny\", do not take the action.",
+      inputSchema: {
+        action: z.string().min(1),
+        name: z
+          .string()
+          .regex(/^[A-Za-z0-9_.-]+$/)
+          .optional(),
+        risk: z.enum(["low", "medium", "high"]),
+        args: z.record(z.unknown()).optional()
+      }
+    },
+    async ({ action, name, risk, args }, extra) => {
+      const call = {
+        toolName: `${SELF_GATE_TOOL_PREFIX}${name ?? "action"}`,
+        args: args ?? {},
+        context: await callerContext(extra)
+      };
+      const result = await requestSelfApproval(gate, call, action, risk, extra.signal);
+      const text =
+        result.decision === "approve"
+          ? `Approved: ${action}${result.editedArgs !== undefined ? " (with edited args)" : ""}`
+          : `Denied: ${action}${result.reason ? ` (${result.reason})` : ""}`;
+      return { content: [{ type: "text", text }], structuredContent: result };
     }
   );
 
   return server;
 }
 
+/**
+ * Starts the server over stdio. `handraise_request_approval` uses the policy
+ * loaded like the gating proxy's, and writes an audit log when
+ * `HANDRAISE_AUDIT_PATH` is set.
+ */
 export async function runHandraiseMcpServer(): Promise<void> {
-  const server = createHandraiseMcpServer();
+  const policyWatcher = await watchMcpApprovalPolicy();
+  const auditPath = process.env.HANDRAISE_AUDIT_PATH?.trim();
+  const gate = createMcpHumanInLoopGate({
+    policy: policyWatcher.current,
+    handraise: createAskUserBridgeApprovalAdapter(),
+    riskScorer: createHeuristicRiskScorer({ workspaceRoot: process.cwd() }),
+    ...(auditPath ? { audit: createJsonlAuditSink({ path: auditPath }) } : {})
+  });
+  const server = createHandraiseMcpServer({ gate });
+  server.server.onclose = () => policyWatcher.close();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("raisehand MCP server connected via stdio");
@@ -84,12 +206,14 @@ export async function runHandraiseMcpServer(): Promise<void> {
 
 async function askUserViaCliBridge(
   askInput: AskUserToolInput,
-  waitTimeoutMs: number
+  waitTimeoutMs: number,
+  signal?: AbortSignal,
+  context?: McpCallerContext
 ): Promise<{
   content: [{ type: "text"; text: string }];
   structuredContent: {
     action: "accept" | "decline" | "cancel";
-    answer: string | string[] | null;
+    answer: AskUserAnswer | null;
     selectedOptions?: string[];
     customResponse?: string;
     statePath?: string;
@@ -102,7 +226,8 @@ async function askUserViaCliBridge(
     await enqueueAskUserPrompt(statePath, {
       id: promptId,
       createdAt: new Date().toISOString(),
-      ...askInput
+      ...askInput,
+      ...(context !== undefined ? { context } : {})
     });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Could not enqueue askUser prompt.";
@@ -118,8 +243,18 @@ async function askUserViaCliBridge(
 
   let response;
   try {
-    response = await waitForAskUserResponse(statePath, promptId, waitTimeoutMs);
-  } catch {
+    response = await waitForAskUserResponse(statePath, promptId, waitTimeoutMs, undefined, signal);
+  } catch (error: unknown) {
+    if (error instanceof AskUserPromptCancelledError) {
+      return {
+        content: [{ type: "text", text: "The askUser prompt was cancelled by the client." }],
+        structuredContent: {
+          action: "cancel",
+          answer: null,
+          statePath
+        }
+      };
+    }
     return {
       content: [
         {
@@ -169,6 +304,45 @@ async function askUserViaCliBridge(
   };
 }
 
+/**
+ * Runs a self-reported action through the gate, which always asks a human
+ * whatever the policy's allowlist or default says. Nothing is executed: an
+ * approval only hands back the args, edited or not. Denials, timeouts,
+ * cancellations and budget or schema failures all come back as a denial.
+ */
+export async function requestSelfApproval(
+  gate: McpHumanInLoopGate,
+  call: { toolName: string; args: McpToolArgs; context?: McpCallerContext },
+  action: string,
+  risk: McpRiskClass,
+  signal?: AbortSignal
+): Promise<SelfGateResult> {
+  try {
+    const approved = await gate.executeWithApproval(call, async (approvedCall) => approvedCall, {
+      summary: action,
+      risk,
+      requireApproval: true,
+      ...(signal !== undefined ? { signal } : {})
+    });
+    return approved.args !== call.args ? { decision: "approve", editedArgs: approved.args } : { decision: "approve" };
+  } catch (error: unknown) {
+    if (error instanceof McpHumanApprovalDeniedError) {
+      return error.reason !== undefined ? { decision: "deny", reason: error.reason } : { decision: "deny" };
+    }
+    if (error instanceof McpHumanApprovalCancelledError) {
+      return { decision: "deny", reason: "The request was cancelled." };
+    }
+    if (
+      error instanceof McpHumanApprovalTimeoutError ||
+      error instanceof McpCallBudgetExceededError ||
+      error instanceof McpApprovalArgsValidationError
+    ) {
+      return { decision: "deny", reason: error.message };
+    }
+    throw error;
+  }
+}
+
 function resolveAskUserTimeoutMs(input: number | undefined): number {
   if (typeof input === "number" && Number.isFinite(input) && input > 0) return input;
   const env = process.env.HANDRAISE_ASK_USER_TIMEOUT_MS;
@@ -0,0 +1,129 @@
+import { McpPolicyPatternError } from "./errors.js";
+import type { McpToolName } from "./types.js";
+import { createBoundedCache, errorMessage } from "./util.js";
+
+/**
+ * A tool name pattern used by `allowlist`, `denylist` and `ToolRule.toolName`.
+ *
+ * - `fs.read_file`: exact name
+ * - `github.*`, `fs.write_?`: glob (`*` matches any run of characters, `?` matches one)
+ * - `/^db\.(drop|truncate)_/i`: regular expression between slashes, with optional flags
+ */
+export type McpToolPattern = string;
+
+export type McpToolPatternKind = "exact" | "glob" | "regex";
+
+export type CompiledToolPattern = {
+  pattern: McpToolPattern;
+  kind: McpToolPatternKind;
+  /** Higher is more specific. Compare with `compareToolPatternSpecificity`. */
+  specificity: number;
+  test: (toolName: McpToolName) => boolean;
+};
+
+const KIND_RANK: Record<McpToolPatternKind, number> = {
+  exact: 2,
+  glob: 1,
+  regex: 0
+};
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/s;
+const GLOB_CHARS = /[*?]/;
+
+const compiledCache = createBoundedCache<McpToolPattern, CompiledToolPattern>(500);
+
+export function compileToolPattern(pattern: McpToolPattern): CompiledToolPattern {
+  const cached = compiledCache.get(pattern);
+  if (cached) return cached;
+
+  const compiled = compileUncached(pattern);
+  compiledCache.set(pattern, compiled);
+  return compiled;
+}
+
+export function matchesToolPattern(pattern: McpToolPattern, toolName: McpToolName): boolean {
+  return compileToolPattern(pattern).test(toolName);
+}
+
+/**
+ * Orders patterns most specific first: exact names, then globs (more literal
+ * characters wins), then regular expressions. Returns a negative number when
+ * `a` is more specific than `b`, and 0 when they tie.
+ */
+export function compareToolPatternSpecificity(
+  a: CompiledToolPattern,
+  b: CompiledToolPattern
+): number {
+  const rank = KIND_RANK[b.kind] - KIND_RANK[a.kind];
+  if (rank !== 0) return rank;
+  return b.specificity - a.specificity;
+}
+
+function compileUncached(pattern: McpToolPattern): CompiledToolPattern {
+  const regexMatch = REGEX_PATTERN.exec(pattern);
+  if (regexMatch) {
+    const source = regexMatch[1]!;
+    const flags = regexMatch[2] ?? "";
+    let regex: RegExp;
+    try {
+      regex = new RegExp(source, flags.replaceAll("g", "").replaceAll("y", ""));
+    } catch (error: unknown) {
+      const reason = errorMessage(error);
+      throw new McpPolicyPatternError({ pattern, reason });
+    }
+    return {
+      pattern,
+      kind: "regex",
+      specificity: 0,
+      test: (toolName) => regex.test(toolName)
+    };
+  }
+
+  if (GLOB_CHARS.test(pattern)) {
+    const regex = globToRegExp(pattern);
+    return {
+      pattern,
+      kind: "glob",
+      specificity: pattern.replace(/[*?]/g, "").length,
+      test: (toolName) => regex.test(toolName)
+    };
+  }
+
+  return {
+    pattern,
+    kind: "exact",
+    specificity: pattern.length,
+    test: (toolName) => toolName === pattern
+  };
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (const char of glob) {
+    if (char === "*") {
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * The entry whose `toolName` pattern matches `toolName` most specifically;
+ * ties go to the earlier entry.
+ */
+export function findMostSpecificToolEntry<T extends { toolName: McpToolPattern }>(
+  entries: readonly T[],
+  toolName: McpToolName
+): T | undefined {
+  let best: { entry: T; compiled: CompiledToolPattern } | undefined;
+  for (const entry of entries) {
+    const compiled = compileToolPattern(entry.toolName);
+    if (!compiled.test(toolName)) continue;
+    if (!best || compareToolPatternSpecificity(compiled, best.compiled) < 0) best = { entry, compiled };
+  }
+  return best?.entry;
+}
@@ -1,3 +1,5 @@
+import type { ArgSecretDetection } from "./redaction.js";
+
 export type McpToolName = string;
 
 export type McpToolArgs = unknown;
@@ -5,6 +7,24 @@ export type McpToolArgs = unknown;
 export type McpToolCall = {
   toolName: McpToolName;
   args: McpToolArgs;
+  /** Who is making the call, when the transport knows. */
+  context?: McpCallerContext;
+};
+
+/**
+ * Identifies the agent behind a call, so a human running several agents can
+ * tell them apart and policy can treat them differently.
+ */
+export type McpCallerContext = {
+  /** The client name from the MCP `initialize` handshake. */
+  agentName?: string;
+  agentVersion?: string;
+  sessionId?: string;
+  /** The working directory the agent runs in. */
+  workspace?: string;
+  gitBranch?: string;
+  /** The gate trace id of the call that led to this one, e.g. from a parent agent. */
+  parentTraceId?: string;
 };
 
 export type McpToolExecutor<TResult = unknown> = (
@@ -20,20 +40,159 @@ export type McpApprovalRequest = {
   risk: McpRiskClass;
   displayArgs: unknown;
   createdAtMs: number;
+  /** When the gate stops waiting for this request; set only if a timeout applies. */
+  expiresAtMs?: number;
+  /** Set when the call needs several approvers; `approvedBy` lists approver ids so far. */
+  quorum?: McpApprovalQuorum & { approvedBy: string[] };
+  /** Set when approval is only required because a call budget ran out. */
+  budgetExceeded?: McpCallBudgetExceeded;
+  /** Set when the gate has a `riskScorer`: 0-100 and why. */
+  riskScore?: number;
+  riskReasons?: string[];
+  /** What the call would do, from the gate's preview provider for this tool. */
+  preview?: McpApprovalPreview;
+  /** Set instead of `preview` when the provider failed or timed out. */
+  previewError?: string;
+  context?: McpCallerContext;
+  /** Secrets masked in `displayArgs`, and which detector found each. */
+  secretDetections?: ArgSecretDetection[];
+};
+
+/**
+ * A dry-run description of a call's effect:
+ *
+ * - `diff`: a unified diff, e.g. for file edits
+ * - `rows`: an affected-row estimate, e.g. for SQL statements
+ * - `files`: the files a call touches
+ * - `text`: anything else, shown as-is
+ */
+export type McpApprovalPreview =
+  | { kind: "diff"; diff: string }
+  | { kind: "rows"; estimatedRows: number; detail?: string }
+  | { kind: "files"; files: Array<{ path: string; change?: "create" | "modify" | "delete" }> }
+  | { kind: "text"; text: string };
+
+export type McpApprover = {
+  id: string;
+  displayName?: string;
+  groups?: string[];
+};
+
+/**
+ * Distinct approvers a call needs. With `groups`, only approvers belonging to
+ * at least one of the listed groups count towards `required`.
+ */
+export type McpApprovalQuorum = {
+  required: number;
+  groups?: string[];
+};
+
+/**
+ * What the gate does when no decision arrives in time:
+ *
+ * - `deny`: reject with `McpHumanApprovalTimeoutError`
+ * - `approveLowRisk`: run the tool if the call is `low` risk, otherwise deny
+ * - `escalate`: re-send the request to the gate's `escalation` adapter
+ */
+export type McpApprovalTimeoutBehavior = "deny" | "approveLowRisk" | "escalate";
+
+/**
+ * What the gate does with a call once a budget is used up:
+ *
+ * - `requireApproval`: ask a human, even for allowlisted tools or with a grant
+ * - `fail`: reject with `McpCallBudgetExceededError`
+ */
+export type McpCallBudgetExceededBehavior = "requireApproval" | "fail";
+
+/**
+ * At most `maxCalls` executions of a tool within any `windowMs` span. Calls
+ * are counted per tool name, not per rule: a `fetch*` rule limits each
+ * matching tool on its own, and every rule matching a tool sees its calls.
+ */
+export type McpToolRateLimit = {
+  maxCalls: number;
+  windowMs: number;
+  onExceeded?: McpCallBudgetExceededBehavior;
 };
 
+/** At most `maxCalls` tool executions over the gate's lifetime. */
+export type McpSessionCallBudget = {
+  maxCalls: number;
+  onExceeded?: McpCallBudgetExceededBehavior;
+};
+
+export type McpCallBudgetExceeded =
+  | { kind: "rateLimit"; maxCalls: number; windowMs: number }
+  | { kind: "session"; maxCalls: number };
+
+/**
+ * How far an approval reaches beyond the current call:
+ *
+ * - `once`: this call only (the default)
+ * - `tool`: any call to this tool for `durationMs`
+ * - `toolArgs`: calls to this tool with identical args, for the session
+ * - `always`: any call to this tool until the grant is revoked
+ */
+export type McpApprovalScope =
+  | { kind: "once" }
+  | { kind: "tool"; durationMs: number }
+  | { kind: "toolArgs" }
+  | { kind: "always" };
+
 export type McpApprovalDecision =
   | {
       decision: "approve";
       overrideArgs?: McpToolArgs;
+      scope?: McpApprovalScope;
+      approver?: McpApprover;
     }
   | {
       decision: "deny";
       reason?: string;
+      approver?: McpApprover;
     };
 
+/**
+ * A finished call's result, shown to a human before it goes back to the model.
+ */
+export type McpResultReviewRequest = {
+  traceId: string;
+  toolName: McpToolName;
+  /** The result, redacted with the rule's result display options. */
+  displayResult: unknown;
+  createdAtMs: number;
+  expiresAtMs?: number;
+  context?: McpCallerContext;
+};
+
+/**
+ * - `release`: return the result unchanged
+ * - `redact`: return the result with the values at `paths` (JSON paths into
+ *   the result) replaced by `[REDACTED]`; with no paths, an invalid one or
+ *   one that matches nothing, the result is withheld instead
+ * - `withhold`: return nothing; the gate throws `McpResultWithheldError`
+ */
+export type McpResultReviewDecision =
+  | { decision: "release"; approver?: McpApprover }
+  | { decision: "redact"; paths?: string[]; approver?: McpApprover }
+  | { decision: "withhold"; reason?: string; approver?: McpApprover };
+
+/** Requests the gate coalesced because they arrived within `batchWindowMs`. */
+export type McpApprovalBatchRequest = {
+  batchId: string;
+  requests: McpApprovalRequest[];
+};
+
+/**
+ * Asks a human. `signal` aborts when the caller gives up or the gate stops
+ * waiting; adapters should withdraw their prompt then.
+ */
 export type HandraiseAdapter = {
-  requestApproval: (req: McpApprovalRequest) => Promise<McpApprovalDecision>;
+  requestApproval: (req: McpApprovalRequest, signal?: AbortSignal) => Promise<McpApprovalDecision>;
+  /** Decides a batch at once; returns one decision per request, in order. */
+  requestBatchApproval?: (batch: McpApprovalBatchRequest, signal?: AbortSignal) => Promise<McpApprovalDecision[]>;
+  /** Required for tools whose rule sets `reviewResult`. */
+  reviewResult?: (req: McpResultReviewRequest, signal?: AbortSignal) => Promise<McpResultReviewDecision>;
 };
 
 export type McpHumanInLoopLogger = {
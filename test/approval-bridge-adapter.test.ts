@@ -0,0 +1,255 @@
+import assert from "node:assert/strict";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  buildBatchApprovalPrompt,
+  createAskUserBridgeApprovalAdapter,
+  toApprovalDecision,
+  toBatchApprovalDecisions,
+  toResultReviewDecision
+} from "../src/mcp/approval-bridge-adapter.js";
+import { listPendingAskUserPrompts, submitAskUserResponse } from "../src/mcp/ask-user-bridge.js";
+import { createMcpHumanInLoopGate } from "../src/mcp/gate.js";
+
+const request = {
+  traceId: "trace-1",
+  toolName: "fs.write_file",
+  summary: "Run MCP tool 'fs.write_file'",
+  risk: "medium" as const,
+  displayArgs: { path: "a.txt" },
+  createdAtMs: 0
+};
+
+test("bridge adapter turns the responder's pick into a decision", async () => {
+  const statePath = join(tmpdir(), `handraise-approval-${Date.now()}-1.json`);
+  const adapter = createAskUserBridgeApprovalAdapter({ statePath, timeoutMs: 2000, pollIntervalMs: 10 });
+
+  try {
+    const pendingDecision = adapter.requestApproval(request);
+    let prompts = await listPendingAskUserPrompts(statePath);
+    while (prompts.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      prompts = await listPendingAskUserPrompts(statePath);
+    }
+
+    assert.equal(prompts[0]?.id, "trace-1");
+    assert.equal(prompts[0]?.header, "Approval required: fs.write_file");
+    assert.match(prompts[0]?.question ?? "", /"path": "a.txt"/);
+
+    await submitAskUserResponse(statePath, {
+      promptId: "trace-1",
+      action: "accept",
+      answer: "Deny",
+      selectedOptions: ["Deny"],
+      customResponse: "wrong file",
+      respondedAt: new Date().toISOString()
+    });
+
+    assert.deepEqual(await pendingDecision, { decision: "deny", reason: "wrong file" });
+  } finally {
+    await rm(statePath, { force: true });
+    await rm(`${statePath}.lock`, { recursive: true, force: true });
+  }
+});
+
+test("bridge adapter denies when nobody answers in time", async () => {
+  const statePath = join(tmpdir(), `handraise-approval-${Date.now()}-2.json`);
+  const adapter = createAskUserBridgeApprovalAdapter({ statePath, timeoutMs: 50, pollIntervalMs: 10 });
+
+  try {
+    const decision = await adapter.requestApproval(request);
+    assert.equal(decision.decision, "deny");
+    assert.deepEqual(await listPendingAskUserPrompts(statePath), []);
+  } finally {
+    await rm(statePath, { force: true });
+    await rm(`${statePath}.lock`, { recursive: true, force: true });
+  }
+});
+
+test("the next request is shown after an earlier one timed out", async () => {
+  const statePath = join(tmpdir(), `handraise-approval-${Date.now()}-3.json`);
+  const adapter = createAskUserBridgeApprovalAdapter({ statePath, timeoutMs: 50, pollIntervalMs: 10 });
+
+  try {
+    assert.equal((await adapter.requestApproval(request)).decision, "deny");
+
+    const second = { ...request, traceId: "trace-2" };
+    const pendingDecision = createAskUserBridgeApprovalAdapter({ statePath, timeoutMs: 2000, pollIntervalMs: 10 })
+      .requestApproval(second);
+    let prompts = await listPendingAskUserPrompts(statePath);
+    while (prompts.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      prompts = await listPendingAskUserPrompts(statePath);
+    }
+    assert.equal(prompts[0]?.id, "trace-2");
+
+    await submitAskUserResponse(statePath, {
+      promptId: "trace-2",
+      action: "accept",
+      selectedOptions: ["Approve once"],
+      respondedAt: new Date().toISOString()
+    });
+    assert.deepEqual(await pendingDecision, { decision: "approve" });
+  } finally {
+    await rm(statePath, { force: true });
+    await rm(`${statePath}.lock`, { recursive: true, force: true });
+  }
+});
+
+test("approve picks map to approval scopes", () => {
+  const respond = (selectedOptions: string[]) => ({
+    promptId: "p",
+    action: "accept" as const,
+    selectedOptions,
+    respondedAt: "2026-01-01T00:00:00.000Z"
+  });
+
+  assert.deepEqual(toApprovalDecision(respond(["Approve once"])), { decision: "approve" });
+  assert.deepEqual(toApprovalDecision(respond(["Approve this tool for 10 minutes"]), 10 * 60 * 1000), {
+    decision: "approve",
+    scope: { kind: "tool", durationMs: 10 * 60 * 1000 }
+  });
+  assert.deepEqual(toApprovalDecision(respond(["Always approve this tool"])), {
+    decision: "approve",
+    scope: { kind: "always" }
+  });
+  assert.deepEqual(toApprovalDecision(respond(["Approve once", "Deny"])), { decision: "deny" });
+});
+
+test("edited args become overrideArgs only on approval", () => {
+  const respond = (selectedOptions: string[]) => ({
+    promptId: "p",
+    action: "accept" as const,
+    selectedOptions,
+    editedArgs: { path: "b.txt" },
+    respondedAt: "2026-01-01T00:00:00.000Z"
+  });
+
+  assert.deepEqual(toApprovalDecision(respond(["Approve once"])), {
+    decision: "approve",
+    overrideArgs: { path: "b.txt" }
+  });
+  assert.deepEqual(toApprovalDecision(respond(["Deny"])), { decision: "deny" });
+});
+
+test("an edit made from the truncated display copy keeps the full values", async () => {
+  const statePath = join(tmpdir(), `handraise-approval-${Date.now()}-edit.json`);
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: createAskUserBridgeApprovalAdapter({ statePath, timeoutMs: 2000, pollIntervalMs: 10 })
+  });
+  const contents = "x".repeat(600);
+
+  try {
+    const pending = gate.executeWithApproval(
+      { toolName: "fs.write_file", args: { path: "a.txt", contents } },
+      async (call) => call.args
+    );
+    let prompts = await listPendingAskUserPrompts(statePath);
+    while (prompts.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      prompts = await listPendingAskUserPrompts(statePath);
+    }
+
+    const shown = prompts[0]?.approval?.args as { path: string; contents: string };
+    assert.ok(shown.contents.length < contents.length);
+    await submitAskUserResponse(statePath, {
+      promptId: prompts[0]?.id ?? "",
+      action: "accept",
+      selectedOptions: ["Approve once"],
+      editedArgs: { ...shown, path: "b.txt" },
+      respondedAt: new Date().toISOString()
+    });
+
+    assert.deepEqual(await pending, { path: "b.txt", contents });
+  } finally {
+    await rm(statePath, { force: true });
+    await rm(`${statePath}.lock`, { recursive: true, force: true });
+  }
+});
+
+test("result review picks map to review decisions", () => {
+  const respond = (selectedOptions: string[], customResponse?: string) => ({
+    promptId: "p#result",
+    action: "accept" as const,
+    selectedOptions,
+    ...(customResponse !== undefined ? { customResponse } : {}),
+    respondedAt: "2026-01-01T00:00:00.000Z"
+  });
+
+  assert.deepEqual(toResultReviewDecision(respond(["Release result"])), { decision: "release" });
+  assert.deepEqual(toResultReviewDecision(respond(["Release redacted result"], "$.a, $.b[0]")), {
+    decision: "redact",
+    paths: ["$.a", "$.b[0]"]
+  });
+  assert.deepEqual(toResultReviewDecision(respond([], "secrets inside")), {
+    decision: "withhold",
+    reason: "secrets inside"
+  });
+});
+
+test("batch picks approve all, none or a subset of the calls", () => {
+  const request = (traceId: string, toolName: string) => ({
+    traceId,
+    toolName,
+    summary: `Run ${toolName}`,
+    risk: "low" as const,
+    displayArgs: {},
+    createdAtMs: 0
+  });
+  const batch = { batchId: "b1", requests: [request("t1", "fs.read"), request("t2", "fs.delete")] };
+  const prompt = buildBatchApprovalPrompt(batch);
+  assert.deepEqual(
+    prompt.options?.map((option) => (typeof option === "string" ? option : option.label)),
+    ["Approve all", "Deny all", "Approve #1: fs.read", "Approve #2: fs.delete"]
+  );
+  assert.equal(prompt.multiple, true);
+
+  const respond = (selectedOptions: string[], customResponse?: string) => ({
+    promptId: "b1",
+    action: "accept" as const,
+    selectedOptions,
+    ...(customResponse !== undefined ? { customResponse } : {}),
+    respondedAt: "2026-01-01T00:00:00.000Z"
+  });
+  const kinds = (decisions: Array<{ decision: string }>) => decisions.map((decision) => decision.decision);
+
+  assert.deepEqual(kinds(toBatchApprovalDecisions(respond(["Approve all"]), batch)), ["approve", "approve"]);
+  assert.deepEqual(kinds(toBatchApprovalDecisions(respond(["Approve all", "Deny all"]), batch)), ["deny", "deny"]);
+  assert.deepEqual(toBatchApprovalDecisions(respond(["Approve #1: fs.read"], "too broad"), batch), [
+    { decision: "approve" },
+    { decision: "deny", reason: "too broad" }
+  ]);
+});
+
+test("approval prompts carry and name the caller context", async () => {
+  const statePath = join(tmpdir(), `handraise-approval-${Date.now()}-3.json`);
+  const adapter = createAskUserBridgeApprovalAdapter({ statePath, timeoutMs: 2000, pollIntervalMs: 10 });
+  const context = { agentName: "claude-code", gitBranch: "main", workspace: "/work/api", parentTraceId: "trace-0" };
+
+  try {
+    const pendingDecision = adapter.requestApproval({ ...request, context });
+    let prompts = await listPendingAskUserPrompts(statePath);
+    while (prompts.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      prompts = await listPendingAskUserPrompts(statePath);
+    }
+
+    assert.deepEqual(prompts[0]?.context, context);
+    assert.match(prompts[0]?.question ?? "", /Requested by: claude-code · main · api\nParent trace: trace-0/);
+
+    await submitAskUserResponse(statePath, {
+      promptId: "trace-1",
+      action: "accept",
+      selectedOptions: ["Approve once"],
+      respondedAt: new Date().toISOString()
+    });
+    assert.deepEqual(await pendingDecision, { decision: "approve" });
+  } finally {
+    await rm(statePath, { force: true });
+    await rm(`${statePath}.lock`, { recursive: true, force: true });
+  }
+});
@@ -10,6 +10,7 @@ import {
   submitAskUserResponse,
   waitForAskUserResponse
 } from "../src/mcp/ask-user-bridge.js";
+import { AskUserPromptCancelledError } from "../src/mcp/errors.js";
 
 test("bridge allows only one pending prompt at a time", async () => {
   const statePath = join(tmpdir(), `handraise-bridge-${Date.now()}-1.json`);
@@ -71,3 +72,27 @@ test("bridge waits for and consumes responses", async () => {
     await rm(`${statePath}.lock`, { recursive: true, force: true });
   }
 });
+
+test("aborting a wait removes the prompt from the bridge", async () => {
+  const statePath = join(tmpdir(), `handraise-bridge-${Date.now()}-3.json`);
+
+  try {
+    await enqueueAskUserPrompt(statePath, {
+      id: "prompt-1",
+      createdAt: "2026-01-01T00:00:01.000Z",
+      question: "Still there?"
+    });
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+    await assert.rejects(
+      waitForAskUserResponse(statePath, "prompt-1", 5000, 1000, controller.signal),
+      AskUserPromptCancelledError
+    );
+
+    assert.deepEqual(await listPendingAskUserPrompts(statePath), []);
+  } finally {
+    await rm(statePath, { force: true });
+    await rm(`${statePath}.lock`, { recursive: true, force: true });
+  }
+});
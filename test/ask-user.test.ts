@@ -143,3 +143,67 @@ test("parseAskUserAcceptedAnswer combines multiple selections and custom text",
     customResponse: "Escalate"
   });
 });
+
+test("buildAskUserFormRequest emits typed schemas for answer constraints", () => {
+  const port = buildAskUserFormRequest({ question: "Which port?", answerType: "integer", min: 1, max: 65535 });
+  assert.equal(port.message, "Which port?\nExpected: a whole number from 1 to 65535");
+  assert.deepEqual(port.requestedSchema.properties.response, {
+    type: "integer",
+    title: "Response",
+    minimum: 1,
+    maximum: 65535
+  });
+
+  const tags = buildAskUserFormRequest({
+    question: "Tags?",
+    options: [{ label: "a" }, { label: "b" }, { label: "c" }],
+    multiple: true,
+    custom: false,
+    minItems: 1,
+    maxItems: 2
+  });
+  assert.deepEqual(tags.requestedSchema.properties.selection, {
+    type: "array",
+    title: "Selections",
+    items: { type: "string", enum: ["a", "b", "c"] },
+    minItems: 1,
+    maxItems: 2
+  });
+});
+
+test("parseAskUserAcceptedAnswer returns typed values and enforces constraints", () => {
+  const port = buildAskUserFormRequest({ question: "Which port?", answerType: "integer", min: 1, max: 65535 });
+  assert.deepEqual(parseAskUserAcceptedAnswer({ response: " 8080 " }, port), { answer: 8080, selectedOptions: [] });
+  assert.deepEqual(parseAskUserAcceptedAnswer({ response: 443 }, port), { answer: 443, selectedOptions: [] });
+  assert.throws(() => parseAskUserAcceptedAnswer({ response: "70000" }, port), {
+    name: "AskUserAnswerInvalidError",
+    message: "The answer must be <= 65535."
+  });
+  assert.throws(() => parseAskUserAcceptedAnswer({ response: "80.5" }, port), /expected integer/);
+  assert.throws(() => parseAskUserAcceptedAnswer({ response: "http" }, port), /Enter a whole number/);
+
+  const confirm = { optionLabels: [], multiple: false, custom: true, answerType: "boolean" as const };
+  assert.equal(parseAskUserAcceptedAnswer({ response: "Yes" }, confirm).answer, true);
+  assert.equal(parseAskUserAcceptedAnswer({ response: false }, confirm).answer, false);
+
+  const email = { optionLabels: [], multiple: false, custom: true, format: "email" as const, pattern: ".+@corp\\.io" };
+  assert.equal(parseAskUserAcceptedAnswer({ response: "ops@corp.io" }, email).answer, "ops@corp.io");
+  assert.throws(() => parseAskUserAcceptedAnswer({ response: "ops@gmail.com" }, email), /must match/);
+
+  const retries = {
+    optionLabels: ["0", "3"],
+    multiple: true,
+    custom: true,
+    answerType: "number" as const,
+    maxItems: 2
+  };
+  assert.deepEqual(parseAskUserAcceptedAnswer({ selection: ["3"], customResponse: "5" }, retries), {
+    answer: ["3", 5],
+    selectedOptions: ["3"],
+    customResponse: "5"
+  });
+  assert.throws(
+    () => parseAskUserAcceptedAnswer({ selection: ["0", "3"], customResponse: "5" }, retries),
+    /Pick at most 2 options/
+  );
+});
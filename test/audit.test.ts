@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import { createJsonlAuditSink, verifyAuditLog } from "../src/mcp/audit.js";
+import { createMcpHumanInLoopGate } from "../src/mcp/gate.js";
+
+async function writeAuditedCalls(logPath: string): Promise<void> {
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval() {
+        return { decision: "approve", overrideArgs: { path: "/tmp/b", token: "secret" }, approver: { id: "alice" } };
+      }
+    },
+    audit: createJsonlAuditSink({ path: logPath }),
+    randomUUID: () => "a1",
+    nowMs: () => 0
+  });
+  await gate.executeWithApproval({ toolName: "writeFile", args: { path: "/tmp/a" } }, async () => "ok");
+}
+
+test("gate writes a hash-chained audit trail that verifies", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "handraise-audit-"));
+  const logPath = join(dir, "audit.jsonl");
+  try {
+    await writeAuditedCalls(logPath);
+
+    const entries = (await readFile(logPath, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { seq: number; event: Record<string, unknown> });
+    assert.deepEqual(
+      entries.map((entry) => entry.event.kind),
+      ["requested", "decided", "executed"]
+    );
+    assert.deepEqual(entries[1]!.event.approver, { id: "alice" });
+    assert.deepEqual(entries[1]!.event.overrideArgs, { path: "/tmp/b", token: "[REDACTED]" });
+
+    assert.deepEqual(await verifyAuditLog(logPath), { ok: true, entries: 3, issues: [] });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("verify detects edited and truncated logs", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "handraise-audit-"));
+  const logPath = join(dir, "audit.jsonl");
+  try {
+    await writeAuditedCalls(logPath);
+    const original = await readFile(logPath, "utf8");
+
+    await writeFile(logPath, original.replace('"outcome":"success"', '"outcome":"error"'));
+    const edited = await verifyAuditLog(logPath);
+    assert.equal(edited.ok, false);
+    assert.deepEqual(edited.issues, [{ line: 3, message: "hash mismatch: entry was modified" }]);
+
+    const lines = original.trim().split("\n");
+    await writeFile(logPath, `${lines.slice(0, 2).join("\n")}\n`);
+    const truncated = await verifyAuditLog(logPath);
+    assert.equal(truncated.ok, false);
+    assert.match(truncated.issues[0]!.message, /truncated/);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  PARENT_TRACE_META_KEY,
+  formatCallerContext,
+  readGitBranch,
+  resolveCallerContext
+} from "../src/mcp/caller-context.js";
+
+test("readGitBranch reads HEAD from the enclosing repository", async () => {
+  const root = await mkdtemp(join(tmpdir(), "handraise-context-"));
+  try {
+    assert.equal(await readGitBranch(root), undefined);
+
+    await mkdir(join(root, ".git"));
+    await writeFile(join(root, ".git", "HEAD"), "ref: refs/heads/feature/login\n");
+    await mkdir(join(root, "packages", "api"), { recursive: true });
+    assert.equal(await readGitBranch(join(root, "packages", "api")), "feature/login");
+
+    await writeFile(join(root, ".git", "HEAD"), `${"a1b2c3d4".repeat(5)}\n`);
+    assert.equal(await readGitBranch(root), "a1b2c3d");
+
+    // A worktree checkout points at its git directory from a `.git` file.
+    const worktree = join(root, "wt");
+    await mkdir(join(root, ".git", "worktrees", "wt"), { recursive: true });
+    await writeFile(join(root, ".git", "worktrees", "wt", "HEAD"), "ref: refs/heads/release\n");
+    await mkdir(worktree);
+    await writeFile(join(worktree, ".git"), "gitdir: ../.git/worktrees/wt\n");
+    assert.equal(await readGitBranch(worktree), "release");
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("resolveCallerContext combines the handshake, session, workspace and _meta", async () => {
+  const root = await mkdtemp(join(tmpdir(), "handraise-context-"));
+  try {
+    await mkdir(join(root, ".git"));
+    await writeFile(join(root, ".git", "HEAD"), "ref: refs/heads/main\n");
+
+    const context = await resolveCallerContext({
+      agent: { name: "claude-code", version: "1.2.0" },
+      sessionId: "0f8fad5b-d9cb-469f-a165-70867728950e",
+      workspace: root,
+      meta: { [PARENT_TRACE_META_KEY]: "trace-parent", other: 1 }
+    });
+
+    assert.deepEqual(context, {
+      agentName: "claude-code",
+      agentVersion: "1.2.0",
+      sessionId: "0f8fad5b-d9cb-469f-a165-70867728950e",
+      workspace: root,
+      gitBranch: "main",
+      parentTraceId: "trace-parent"
+    });
+    assert.equal(
+      formatCallerContext(context),
+      `claude-code · main · ${root.split("/").pop()} · session 0f8fad5b`
+    );
+    assert.equal(formatCallerContext({}), undefined);
+    assert.deepEqual(await resolveCallerContext({}), {});
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
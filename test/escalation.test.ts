@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createEscalationChainAdapter } from "../src/mcp/escalation.js";
+import type { HandraiseAdapter, McpApprovalRequest } from "../src/mcp/types.js";
+
+const request: McpApprovalRequest = {
+  traceId: "trace-chain",
+  toolName: "db.migrate",
+  summary: "Run MCP tool 'db.migrate'",
+  risk: "high",
+  displayArgs: {},
+  createdAtMs: 0
+};
+
+/** An adapter that never answers and records when its prompt is withdrawn. */
+function silentAdapter(withdrawn: string[], name: string): HandraiseAdapter {
+  return {
+    requestApproval: (_req, signal) =>
+      new Promise((_resolve, reject) => {
+        signal?.addEventListener("abort", () => {
+          withdrawn.push(name);
+          reject(new Error(`${name} withdrawn`));
+        });
+      })
+  };
+}
+
+function recordingLogger(events: Array<{ event: string; payload: Record<string, unknown> }>) {
+  return {
+    info: (event: string, payload: Record<string, unknown>) => void events.push({ event, payload }),
+    warn: (event: string, payload: Record<string, unknown>) => void events.push({ event, payload })
+  };
+}
+
+test("escalation chain moves on after each step's timeout and withdraws earlier steps", async () => {
+  const withdrawn: string[] = [];
+  const events: Array<{ event: string; payload: Record<string, unknown> }> = [];
+  const oncallRequests: McpApprovalRequest[] = [];
+  const adapter = createEscalationChainAdapter({
+    steps: [
+      { name: "tui", adapter: silentAdapter(withdrawn, "tui"), timeoutMs: 20 },
+      {
+        name: "on-call",
+        adapter: {
+          async requestApproval(req) {
+            oncallRequests.push(req);
+            return { decision: "approve", approver: { id: "oncall" } };
+          }
+        }
+      }
+    ],
+    logger: recordingLogger(events),
+    nowMs: () => 1000
+  });
+
+  const decision = await adapter.requestApproval(request);
+
+  assert.deepEqual(decision, { decision: "approve", approver: { id: "oncall" } });
+  assert.deepEqual(withdrawn, ["tui"]);
+  assert.equal(oncallRequests[0]?.createdAtMs, 1000);
+  assert.equal(oncallRequests[0]?.expiresAtMs, undefined);
+  assert.deepEqual(
+    events.map(({ event, payload }) => [event, payload.traceId, payload.step ?? payload.to]),
+    [
+      ["mcp_approval_chain_step", "trace-chain", "tui"],
+      ["mcp_approval_chain_escalated", "trace-chain", "on-call"],
+      ["mcp_approval_chain_step", "trace-chain", "on-call"]
+    ]
+  );
+});
+
+test("escalation chain denies once every step has passed, skipping failed steps", async () => {
+  const withdrawn: string[] = [];
+  const events: string[] = [];
+  const adapter = createEscalationChainAdapter({
+    steps: [
+      {
+        name: "webhook",
+        adapter: {
+          async requestApproval() {
+            throw new Error("webhook returned 502");
+          }
+        },
+        timeoutMs: 1000
+      },
+      { name: "tui", adapter: silentAdapter(withdrawn, "tui"), timeoutMs: 20 }
+    ],
+    logger: { info: (event) => void events.push(event), warn: (event) => void events.push(event) }
+  });
+
+  const decision = await adapter.requestApproval(request);
+
+  assert.equal(decision.decision, "deny");
+  assert.deepEqual(withdrawn, ["tui"]);
+  assert.deepEqual(events, [
+    "mcp_approval_chain_step",
+    "mcp_approval_chain_step_failed",
+    "mcp_approval_chain_step",
+    "mcp_approval_chain_escalated",
+    "mcp_approval_chain_exhausted"
+  ]);
+  assert.deepEqual(
+    await adapter.reviewResult!({ traceId: "t", toolName: "x", displayResult: {}, createdAtMs: 0 }),
+    { decision: "withhold", reason: "No reviewer in the escalation chain responded in time." }
+  );
+});
+
+test("aborting the caller's signal withdraws the current step", async () => {
+  const withdrawn: string[] = [];
+  const adapter = createEscalationChainAdapter({
+    steps: [{ name: "tui", adapter: silentAdapter(withdrawn, "tui"), timeoutMs: 10_000 }]
+  });
+  const controller = new AbortController();
+
+  const pending = adapter.requestApproval(request, controller.signal);
+  controller.abort();
+
+  await assert.rejects(pending, /tui withdrawn/);
+  assert.deepEqual(withdrawn, ["tui"]);
+  assert.throws(
+    () =>
+      createEscalationChainAdapter({
+        steps: [{ adapter: silentAdapter([], "a") }, { adapter: silentAdapter([], "b") }]
+      }),
+    /Only the last escalation step may omit timeoutMs/
+  );
+});
@@ -1,8 +1,20 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 
+import { z } from "zod";
+
+import type { McpArgsSchema } from "../src/mcp/args-schema.js";
+import type { McpApprovalAuditEvent } from "../src/mcp/audit.js";
 import { createMcpHumanInLoopGate } from "../src/mcp/gate.js";
-import { McpHumanApprovalDeniedError } from "../src/mcp/errors.js";
+import {
+  McpApprovalArgsValidationError,
+  McpCallBudgetExceededError,
+  McpHumanApprovalCancelledError,
+  McpHumanApprovalDeniedError,
+  McpHumanApprovalTimeoutError,
+  McpResultWithheldError
+} from "../src/mcp/errors.js";
+import type { McpApprovalRequest, McpResultReviewDecision } from "../src/mcp/types.js";
 
 test("approved tool executes", async () => {
   const gate = createMcpHumanInLoopGate({
@@ -84,8 +96,689 @@ test("redaction applied to displayArgs", async () => {
     async () => "ok"
   );
 
-  assert.deepEqual(displayArgs, {
-    token: "[REDACTED]",
-    nested: { token: "[REDACTED]" }
+  const shown = displayArgs as { token: string; nested: { token: string } };
+  assert.match(shown.token, /^\[REDACTED\]~[0-9a-f]{8}$/);
+  assert.match(shown.nested.token, /^\[REDACTED\]~[0-9a-f]{8}$/);
+  assert.notEqual(shown.token, shown.nested.token);
+});
+
+test("argument conditions are evaluated against the full call", async () => {
+  const requested: string[] = [];
+
+  const gate = createMcpHumanInLoopGate({
+    policy: {
+      defaultRequireApproval: true,
+      tools: [
+        {
+          toolName: "functions.bash",
+          conditions: [
+            { when: { kind: "equals", path: "$.command", value: "ls" }, requireApproval: false }
+          ]
+        }
+      ]
+    },
+    handraise: {
+      async requestApproval(req) {
+        requested.push(req.traceId);
+        return { decision: "approve" };
+      }
+    },
+    randomUUID: () => "t4",
+    nowMs: () => 0
+  });
+
+  await gate.executeWithApproval({ toolName: "functions.bash", args: { command: "ls" } }, async () => "ok");
+  assert.deepEqual(requested, []);
+
+  await gate.executeWithApproval({ toolName: "functions.bash", args: { command: "rm x" } }, async () => "ok");
+  assert.deepEqual(requested, ["t4"]);
+});
+
+test("scoped approvals create grants that skip later prompts", async () => {
+  let now = 0;
+  let prompts = 0;
+  const events: Array<{ event: string; payload: Record<string, unknown> }> = [];
+  let ids = 0;
+
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval(req) {
+        prompts += 1;
+        if (req.toolName === "git.status") {
+          return { decision: "approve", scope: { kind: "tool", durationMs: 60_000 } };
+        }
+        return { decision: "approve", scope: { kind: "toolArgs" } };
+      }
+    },
+    logger: {
+      info: (event, payload) => events.push({ event, payload }),
+      warn: (event, payload) => events.push({ event, payload })
+    },
+    randomUUID: () => `id${++ids}`,
+    nowMs: () => now
+  });
+  const run = (toolName: string, args: unknown) => gate.executeWithApproval({ toolName, args }, async () => "ok");
+
+  await run("git.status", {});
+  await run("git.status", { short: true });
+  assert.equal(prompts, 1);
+
+  const created = events.find((e) => e.event === "mcp_approval_grant_created");
+  assert.deepEqual(created?.payload, {
+    grantId: "id2",
+    traceId: "id1",
+    toolName: "git.status",
+    scope: "tool",
+    expiresAtMs: 60_000
+  });
+
+  now = 60_000;
+  await run("git.status", {});
+  assert.equal(prompts, 2);
+
+  await run("fs.write", { path: "a", contents: "x" });
+  await run("fs.write", { contents: "x", path: "a" });
+  assert.equal(prompts, 3);
+  await run("fs.write", { path: "b", contents: "x" });
+  assert.equal(prompts, 4);
+});
+
+test("revoked grants prompt again", async () => {
+  let prompts = 0;
+
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval() {
+        prompts += 1;
+        return { decision: "approve", scope: { kind: "always" } };
+      }
+    },
+    nowMs: () => 0
+  });
+
+  await gate.executeWithApproval({ toolName: "fetch", args: {} }, async () => "ok");
+  await gate.executeWithApproval({ toolName: "fetch", args: {} }, async () => "ok");
+  assert.equal(prompts, 1);
+
+  const [grant] = await gate.listGrants();
+  assert.equal(grant?.scope, "always");
+  assert.equal(await gate.revokeGrant(grant!.id), true);
+  assert.deepEqual(await gate.listGrants(), []);
+
+  await gate.executeWithApproval({ toolName: "fetch", args: {} }, async () => "ok");
+  assert.equal(prompts, 2);
+});
+
+test("grants cover only the session and agent they were approved for", async () => {
+  let prompts = 0;
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval() {
+        prompts += 1;
+        return { decision: "approve", scope: { kind: "always" } };
+      }
+    },
+    nowMs: () => 0
+  });
+  const callFrom = (context: { agentName: string; sessionId: string; gitBranch?: string }) =>
+    gate.executeWithApproval({ toolName: "fetch", args: {}, context }, async () => "ok");
+
+  await callFrom({ agentName: "a", sessionId: "s1" });
+  await callFrom({ agentName: "a", sessionId: "s1", gitBranch: "main" });
+  assert.equal(prompts, 1);
+
+  await callFrom({ agentName: "a", sessionId: "s2" });
+  await callFrom({ agentName: "b", sessionId: "s1" });
+  assert.equal(prompts, 3);
+  assert.deepEqual((await gate.listGrants())[0]?.context, { agentName: "a", sessionId: "s1" });
+});
+
+test("approval timeout denies with a typed error", async () => {
+  let expiresAtMs: number | undefined;
+
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      requestApproval(req) {
+        expiresAtMs = req.expiresAtMs;
+        return new Promise(() => undefined);
+      }
+    },
+    approvalTimeoutMs: 20,
+    randomUUID: () => "t5",
+    nowMs: () => 1000
   });
+
+  await assert.rejects(
+    () => gate.executeWithApproval({ toolName: "deploy", args: {} }, async () => "ok"),
+    (err: unknown) => {
+      assert.ok(err instanceof McpHumanApprovalTimeoutError);
+      assert.equal(err.traceId, "t5");
+      assert.equal(err.timeoutMs, 20);
+      return true;
+    }
+  );
+  assert.equal(expiresAtMs, 1020);
+});
+
+test("approval timeout falls back per tool rule", async () => {
+  const hang = () => new Promise<never>(() => undefined);
+  let escalatedTool: string | undefined;
+
+  const gate = createMcpHumanInLoopGate({
+    policy: {
+      defaultRequireApproval: true,
+      tools: [
+        { toolName: "read_*", risk: "low", onApprovalTimeout: "approveLowRisk" },
+        { toolName: "write_*", risk: "medium", onApprovalTimeout: "approveLowRisk" },
+        { toolName: "deploy", approvalTimeoutMs: 10, onApprovalTimeout: "escalate" }
+      ]
+    },
+    handraise: { requestApproval: hang },
+    escalation: {
+      async requestApproval(req) {
+        escalatedTool = req.toolName;
+        return { decision: "approve" };
+      }
+    },
+    approvalTimeoutMs: 20
+  });
+
+  assert.equal(await gate.executeWithApproval({ toolName: "read_file", args: {} }, async () => "read"), "read");
+  await assert.rejects(
+    () => gate.executeWithApproval({ toolName: "write_file", args: {} }, async () => "write"),
+    McpHumanApprovalTimeoutError
+  );
+  assert.equal(await gate.executeWithApproval({ toolName: "deploy", args: {} }, async () => "deployed"), "deployed");
+  assert.equal(escalatedTool, "deploy");
+});
+
+test("quorum rules wait for distinct eligible approvers", async () => {
+  const seen: string[][] = [];
+  const voter = (id: string, groups: string[]) => ({
+    async requestApproval(req: { quorum?: { approvedBy: string[] } }) {
+      seen.push(req.quorum?.approvedBy ?? []);
+      return { decision: "approve" as const, approver: { id, groups } };
+    }
+  });
+
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: false, tools: [{ toolName: "deploy", requireApproval: true, quorum: { required: 2, groups: ["sre"] } }] },
+    handraise: voter("alice", ["sre"]),
+    approvers: [voter("mallory", ["dev"]), voter("bob", ["sre"])],
+    randomUUID: () => "q1",
+    nowMs: () => 0
+  });
+
+  let runs = 0;
+  await gate.executeWithApproval({ toolName: "deploy", args: {} }, async () => {
+    runs += 1;
+    return "ok";
+  });
+
+  assert.equal(runs, 1);
+  assert.ok(seen.some((approvedBy) => approvedBy.length === 1));
+});
+
+test("quorum denies when approvers run out", async () => {
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: false, tools: [{ toolName: "deploy", requireApproval: true, quorum: { required: 2 } }] },
+    handraise: {
+      async requestApproval() {
+        return { decision: "approve", approver: { id: "alice" }, scope: { kind: "always" } };
+      }
+    },
+    randomUUID: () => "q2",
+    nowMs: () => 0
+  });
+
+  await assert.rejects(
+    () => gate.executeWithApproval({ toolName: "deploy", args: {} }, async () => "ran"),
+    (err: unknown) => {
+      assert.ok(err instanceof McpHumanApprovalDeniedError);
+      assert.equal(err.reason, "Approval quorum not reached (1/2).");
+      return true;
+    }
+  );
+  assert.deepEqual(await gate.listGrants(), []);
+});
+
+test("rate limits require approval again once exhausted", async () => {
+  let now = 0;
+  const prompts: unknown[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: {
+      defaultRequireApproval: true,
+      tools: [{ toolName: "fetch", requireApproval: false, rateLimit: { maxCalls: 2, windowMs: 1000 } }]
+    },
+    handraise: {
+      async requestApproval(req) {
+        prompts.push(req.budgetExceeded);
+        return { decision: "approve", scope: { kind: "always" } };
+      }
+    },
+    randomUUID: () => "r1",
+    nowMs: () => now
+  });
+
+  const fetchOnce = () => gate.executeWithApproval({ toolName: "fetch", args: {} }, async () => "ok");
+  await fetchOnce();
+  await fetchOnce();
+  assert.equal(prompts.length, 0);
+
+  // The `always` grant from this approval must not lift the limit.
+  await fetchOnce();
+  await fetchOnce();
+  assert.deepEqual(prompts, [
+    { kind: "rateLimit", maxCalls: 2, windowMs: 1000 },
+    { kind: "rateLimit", maxCalls: 2, windowMs: 1000 }
+  ]);
+
+  now = 5000;
+  await fetchOnce();
+  assert.equal(prompts.length, 2);
+});
+
+test("session budget can hard-fail with a typed error", async () => {
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: false, sessionBudget: { maxCalls: 1, onExceeded: "fail" } },
+    handraise: {
+      async requestApproval() {
+        return { decision: "approve" };
+      }
+    },
+    nowMs: () => 0
+  });
+
+  await gate.executeWithApproval({ toolName: "a", args: {} }, async () => "ok");
+  await assert.rejects(
+    () => gate.executeWithApproval({ toolName: "b", args: {} }, async () => "ok"),
+    (err: unknown) => {
+      assert.ok(err instanceof McpCallBudgetExceededError);
+      assert.deepEqual(err.budget, { kind: "session", maxCalls: 1 });
+      return true;
+    }
+  );
+});
+
+test("allowlisted tools are still throttled by a matching tools rule", async () => {
+  const gate = createMcpHumanInLoopGate({
+    policy: {
+      defaultRequireApproval: true,
+      allowlist: ["fetch"],
+      tools: [{ toolName: "fetch", rateLimit: { maxCalls: 1, windowMs: 1000, onExceeded: "fail" } }]
+    },
+    handraise: {
+      async requestApproval() {
+        return { decision: "deny" };
+      }
+    },
+    nowMs: () => 0
+  });
+
+  assert.equal(await gate.executeWithApproval({ toolName: "fetch", args: {} }, async () => "ok"), "ok");
+  await assert.rejects(
+    () => gate.executeWithApproval({ toolName: "fetch", args: {} }, async () => "ok"),
+    (err: unknown) => {
+      assert.ok(err instanceof McpCallBudgetExceededError);
+      assert.deepEqual(err.budget, { kind: "rateLimit", maxCalls: 1, windowMs: 1000 });
+      return true;
+    }
+  );
+});
+
+test("edited args are validated against the rule's schema", async () => {
+  const schemas: Record<string, McpArgsSchema> = {
+    json: { type: "object", properties: { path: { type: "string", pattern: "^/tmp/" } }, required: ["path"] },
+    zod: z.object({ path: z.string().startsWith("/tmp/") })
+  };
+
+  for (const [kind, argsSchema] of Object.entries(schemas)) {
+    let overrideArgs: unknown = { path: "/etc/passwd" };
+    const gate = createMcpHumanInLoopGate({
+      policy: { defaultRequireApproval: false, tools: [{ toolName: "writeFile", requireApproval: true, argsSchema }] },
+      handraise: {
+        async requestApproval() {
+          return { decision: "approve", overrideArgs };
+        }
+      },
+      randomUUID: () => "v1",
+      nowMs: () => 0
+    });
+
+    await assert.rejects(
+      () => gate.executeWithApproval({ toolName: "writeFile", args: { path: "/tmp/a" } }, async () => "ran"),
+      (err: unknown) => {
+        assert.ok(err instanceof McpApprovalArgsValidationError, kind);
+        assert.equal(err.issues[0]?.path, "$.path");
+        return true;
+      }
+    );
+
+    overrideArgs = { path: "/tmp/b" };
+    const result = await gate.executeWithApproval(
+      { toolName: "writeFile", args: { path: "/tmp/a" } },
+      async (call) => call.args
+    );
+    assert.deepEqual(result, { path: "/tmp/b" });
+  }
+});
+
+test("result review can release, redact or withhold the result", async () => {
+  const reviews: unknown[] = [];
+  let decision: McpResultReviewDecision = { decision: "release" };
+  const gate = createMcpHumanInLoopGate({
+    policy: {
+      defaultRequireApproval: false,
+      tools: [{ toolName: "db.dump", requireApproval: false, reviewResult: true }]
+    },
+    handraise: {
+      async requestApproval() {
+        return { decision: "deny" };
+      },
+      async reviewResult(req) {
+        reviews.push(req.displayResult);
+        return decision;
+      }
+    },
+    randomUUID: () => "rv1",
+    nowMs: () => 0
+  });
+  const dump = () =>
+    gate.executeWithApproval({ toolName: "db.dump", args: {} }, async () => ({
+      rows: [{ email: "a@example.com", password: "hunter2" }]
+    }));
+
+  assert.deepEqual(await dump(), { rows: [{ email: "a@example.com", password: "hunter2" }] });
+  assert.deepEqual(reviews[0], { rows: [{ email: "a@example.com", password: "[REDACTED]" }] });
+
+  decision = { decision: "redact", paths: ["$.rows[*].email"] };
+  assert.deepEqual(await dump(), { rows: [{ email: "[REDACTED]", password: "hunter2" }] });
+
+  const withheldFor = async (paths: string[] | undefined, reason: RegExp) => {
+    decision = { decision: "redact", ...(paths !== undefined ? { paths } : {}) };
+    await assert.rejects(dump, (err: unknown) => {
+      assert.ok(err instanceof McpResultWithheldError);
+      assert.match(err.reason ?? "", reason);
+      return true;
+    });
+  };
+  await withheldFor(undefined, /no JSON paths/);
+  await withheldFor([], /no JSON paths/);
+  await withheldFor(["secret"], /Invalid JSON path 'secret'/);
+  await withheldFor(["$.rows[*].email", "$.rows[*].ssn"], /'\$\.rows\[\*\]\.ssn' matches nothing/);
+
+  decision = { decision: "withhold", reason: "contains PII" };
+  await assert.rejects(dump, (err: unknown) => {
+    assert.ok(err instanceof McpResultWithheldError);
+    assert.equal(err.reason, "contains PII");
+    return true;
+  });
+});
+
+test("concurrent requests within the batch window are decided together", async () => {
+  const batches: string[][] = [];
+  let single = 0;
+  let n = 0;
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval() {
+        single += 1;
+        return { decision: "approve" };
+      },
+      async requestBatchApproval(batch) {
+        batches.push(batch.requests.map((req) => req.toolName));
+        return batch.requests.map((req) =>
+          req.toolName === "fs.delete" ? { decision: "deny", reason: "no" } : { decision: "approve" }
+        );
+      }
+    },
+    batchWindowMs: 20,
+    randomUUID: () => `t${++n}`
+  });
+  const run = (toolName: string) => gate.executeWithApproval({ toolName, args: {} }, async () => toolName);
+
+  const results = await Promise.allSettled([run("fs.read"), run("fs.delete"), run("fs.list")]);
+  assert.deepEqual(batches, [["fs.read", "fs.delete", "fs.list"]]);
+  assert.equal(single, 0);
+  assert.deepEqual(
+    results.map((result) => result.status),
+    ["fulfilled", "rejected", "fulfilled"]
+  );
+  const denied = results[1];
+  assert.ok(denied?.status === "rejected" && denied.reason instanceof McpHumanApprovalDeniedError);
+
+  assert.equal(await run("fs.read"), "fs.read");
+  assert.equal(single, 1);
+});
+
+test("aborting the signal withdraws a pending approval", async () => {
+  let withdrawn = false;
+  const events: string[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      requestApproval(_req, signal) {
+        return new Promise((_resolve, reject) => {
+          signal?.addEventListener("abort", () => {
+            withdrawn = true;
+            reject(new Error("withdrawn"));
+          });
+        });
+      }
+    },
+    audit: { append: (event) => void events.push(event.kind) },
+    randomUUID: () => "c1"
+  });
+
+  const controller = new AbortController();
+  const pending = gate.executeWithApproval({ toolName: "fs.delete", args: {} }, async () => "ran", {
+    signal: controller.signal
+  });
+  setTimeout(() => controller.abort(), 10);
+
+  await assert.rejects(pending, McpHumanApprovalCancelledError);
+  assert.equal(withdrawn, true);
+  assert.deepEqual(events, ["requested", "cancelled"]);
+});
+
+test("the caller context reaches the request, the audit log and policy", async () => {
+  const requests: McpApprovalRequest[] = [];
+  const events: McpApprovalAuditEvent[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: {
+      defaultRequireApproval: false,
+      tools: [{ toolName: "git.push", context: { gitBranch: "main" }, requireApproval: true }]
+    },
+    handraise: {
+      async requestApproval(req) {
+        requests.push(req);
+        return { decision: "approve" };
+      }
+    },
+    audit: { append: (event) => void events.push(event) },
+    randomUUID: () => "t-context",
+    nowMs: () => 0
+  });
+  const context = { agentName: "claude-code", sessionId: "s1", gitBranch: "main" };
+
+  await gate.executeWithApproval({ toolName: "git.push", args: {}, context }, async () => "ok");
+  await gate.executeWithApproval(
+    { toolName: "git.push", args: {}, context: { ...context, gitBranch: "feature/x" } },
+    async () => "ok"
+  );
+
+  assert.equal(requests.length, 1);
+  assert.deepEqual(requests[0]?.context, context);
+  const requested = events.find((event) => event.kind === "requested");
+  assert.deepEqual(requested?.kind === "requested" ? requested.context : undefined, context);
+});
+
+test("secrets inside argument values are masked and reported on the request", async () => {
+  const requests: McpApprovalRequest[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval(req) {
+        requests.push(req);
+        return { decision: "approve" };
+      }
+    },
+    randomUUID: () => "t-secrets",
+    nowMs: () => 0
+  });
+
+  await gate.executeWithApproval(
+    { toolName: "shell.exec", args: { command: "psql postgres://app:hunter22@db/app -c 'select 1'" } },
+    async () => "ok"
+  );
+
+  assert.match(
+    (requests[0]?.displayArgs as { command: string }).command,
+    /^psql postgres:\/\/app:\[REDACTED:connectionString\]~[0-9a-f]{8}@db\/app -c 'select 1'$/
+  );
+  assert.deepEqual(requests[0]?.secretDetections, [{ path: "$.command", detector: "connectionString" }]);
+});
+
+test("placeholders left in overrideArgs keep the original secrets", async () => {
+  const executed: unknown[] = [];
+  let respond: (req: McpApprovalRequest) => unknown = () => ({});
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval(req) {
+        return { decision: "approve", overrideArgs: respond(req) };
+      }
+    },
+    randomUUID: () => "t-placeholders",
+    nowMs: () => 0
+  });
+  const call = {
+    toolName: "http.post",
+    args: {
+      url: "https://api.example.com",
+      token: "tok-1",
+      password: "pw-1",
+      headers: { Authorization: "Bearer abcdefgh12" }
+    }
+  };
+
+  respond = (req) => {
+    const shown = req.displayArgs as { token: string; password: string; headers: { Authorization: string } };
+    return { ...shown, url: "https://staging.example.com", password: "pw-2" };
+  };
+  await gate.executeWithApproval(call, async (c) => executed.push(c.args));
+  assert.deepEqual(executed[0], {
+    url: "https://staging.example.com",
+    token: "tok-1",
+    password: "pw-2",
+    headers: { Authorization: "Bearer abcdefgh12" }
+  });
+
+  respond = (req) => {
+    const shown = req.displayArgs as { token: string };
+    return { ...(req.displayArgs as object), url: shown.token };
+  };
+  await assert.rejects(
+    gate.executeWithApproval(call, async (c) => executed.push(c.args)),
+    (err: unknown) => {
+      assert.ok(err instanceof McpApprovalArgsValidationError);
+      assert.deepEqual(err.issues, [{ path: "$.url", message: "holds the placeholder for $.token" }]);
+      return true;
+    }
+  );
+  assert.equal(executed.length, 1);
+});
+
+test("dropped args reach the tool after an edited approval", async () => {
+  const executed: unknown[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: {
+      defaultRequireApproval: true,
+      tools: [
+        { toolName: "http.get", argDisplay: { rules: [{ kind: "redactKey", key: "Authorization", mode: "drop" }] } }
+      ]
+    },
+    handraise: {
+      async requestApproval(req) {
+        return { decision: "approve", overrideArgs: { ...(req.displayArgs as object), url: "https://b.example" } };
+      }
+    },
+    randomUUID: () => "t-dropped",
+    nowMs: () => 0
+  });
+
+  await gate.executeWithApproval(
+    { toolName: "http.get", args: { url: "https://a.example", headers: { Accept: "*/*", Authorization: "Bearer x" } } },
+    async (c) => executed.push(c.args)
+  );
+  assert.deepEqual(executed, [{ url: "https://b.example", headers: { Accept: "*/*", Authorization: "Bearer x" } }]);
+});
+
+test("values longer than maxStringLen reach the tool whole after an edited approval", async () => {
+  const executed: unknown[] = [];
+  let respond: (shown: { path: string; contents: string }) => unknown = () => ({});
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval(req) {
+        return { decision: "approve", overrideArgs: respond(req.displayArgs as { path: string; contents: string }) };
+      }
+    },
+    randomUUID: () => "t-truncated",
+    nowMs: () => 0
+  });
+  const contents = "x".repeat(600);
+  const call = { toolName: "writeFile", args: { path: "/tmp/a", contents } };
+
+  respond = (shown) => ({ ...shown, path: "/tmp/b" });
+  await gate.executeWithApproval(call, async (c) => executed.push(c.args));
+  assert.deepEqual(executed[0], { path: "/tmp/b", contents });
+
+  respond = (shown) => ({ ...shown, contents: shown.contents.replace(/~[0-9a-f]{8}$/, "") });
+  await assert.rejects(
+    gate.executeWithApproval(call, async (c) => executed.push(c.args)),
+    (err: unknown) => {
+      assert.ok(err instanceof McpApprovalArgsValidationError);
+      assert.equal(err.issues[0]?.path, "$.contents");
+      return true;
+    }
+  );
+  assert.equal(executed.length, 1);
+});
+
+test("a grant from an edited approval does not cover the unedited args", async () => {
+  let prompts = 0;
+  const executed: unknown[] = [];
+  const events: string[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval(req) {
+        prompts += 1;
+        const scope = req.toolName === "fs.read" ? { kind: "toolArgs" as const } : { kind: "always" as const };
+        return { decision: "approve", overrideArgs: { path: "/tmp/safe" }, scope };
+      }
+    },
+    logger: { info: (event) => events.push(event), warn: (event) => events.push(event) },
+    nowMs: () => 0
+  });
+  const run = (toolName: string, path: string) =>
+    gate.executeWithApproval({ toolName, args: { path } }, async (c) => executed.push(c.args));
+
+  await run("fs.read", "/etc/passwd");
+  await run("fs.read", "/etc/passwd");
+  assert.equal(prompts, 2);
+  await run("fs.read", "/tmp/safe");
+  assert.equal(prompts, 2);
+
+  await run("fs.write", "/etc/passwd");
+  await run("fs.write", "/etc/passwd");
+  assert.equal(prompts, 4);
+  assert.ok(events.includes("mcp_approval_grant_skipped"));
+  assert.ok((await gate.listGrants()).every((grant) => grant.scope === "toolArgs"));
 });
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { validateJsonSchema, type JsonSchema } from "../src/mcp/json-schema.js";
+
+test("validateJsonSchema reports every mismatch with its path", () => {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: {
+      path: { type: "string", minLength: 1 },
+      mode: { enum: ["overwrite", "append"] },
+      lines: { type: "array", items: { type: "integer", minimum: 0 }, maxItems: 3 }
+    },
+    required: ["path"],
+    additionalProperties: false
+  };
+
+  assert.deepEqual(validateJsonSchema(schema, { path: "a", mode: "append", lines: [1, 2] }), []);
+  assert.deepEqual(validateJsonSchema(schema, { mode: "truncate", lines: [1, -1, 2.5, 3], "extra key": true }), [
+    { path: "$.path", message: "is required" },
+    { path: "$.mode", message: 'must be one of "overwrite", "append"' },
+    { path: "$.lines", message: "must have at most 3 items" },
+    { path: "$.lines[1]", message: "must be >= 0" },
+    { path: "$.lines[2]", message: "expected integer, got number" },
+    { path: '$["extra key"]', message: "is not allowed" }
+  ]);
+});
+
+test("validateJsonSchema checks formats and combinators", () => {
+  assert.deepEqual(validateJsonSchema({ type: "string", format: "email" }, "a@b.co"), []);
+  assert.deepEqual(validateJsonSchema({ type: "string", format: "date" }, "2026-02-30x"), [
+    { path: "$", message: "must be a valid date" }
+  ]);
+  assert.deepEqual(validateJsonSchema({ anyOf: [{ type: "string" }, { type: "null" }] }, 3), [
+    { path: "$", message: "does not match any of the allowed schemas" }
+  ]);
+});
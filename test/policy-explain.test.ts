@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { McpApprovalPolicy } from "../src/mcp/policy.js";
+import { explainPolicyMatch, replayPolicyCalls } from "../src/mcp/policy-explain.js";
+
+const policy: McpApprovalPolicy = {
+  defaultRequireApproval: true,
+  allowlist: ["fs.read*"],
+  tools: [
+    {
+      toolName: "shell.*",
+      risk: "high",
+      conditions: [{ when: { kind: "matches", path: "$.cmd", pattern: "^ls\\b" }, requireApproval: false, risk: "low" }]
+    }
+  ]
+};
+
+test("explainPolicyMatch names the matched rule and shows the redacted args", () => {
+  const explanation = explainPolicyMatch(policy, { toolName: "shell.exec", args: { cmd: "rm -rf x", token: "t" } });
+  assert.equal(explanation.rule, 'tools[0] "shell.*"');
+  assert.equal(explanation.match.requireApproval, true);
+  assert.equal(explanation.match.risk, "high");
+  const shown = explanation.displayArgs as { cmd: string; token: string };
+  assert.equal(shown.cmd, "rm -rf x");
+  assert.match(shown.token, /^\[REDACTED\]~[0-9a-f]{8}$/);
+
+  assert.equal(
+    explainPolicyMatch(policy, { toolName: "shell.exec", args: { cmd: "ls -la" } }).rule,
+    'tools[0] "shell.*" (conditions[0])'
+  );
+  assert.equal(
+    explainPolicyMatch(policy, { toolName: "net.fetch", args: {} }).rule,
+    "default (defaultRequireApproval: true)"
+  );
+});
+
+test("replayPolicyCalls counts prompts per tool and reports bad lines", () => {
+  const report = replayPolicyCalls(
+    policy,
+    [
+      JSON.stringify({ toolName: "fs.read_file", args: { path: "a" } }),
+      JSON.stringify({ name: "shell.exec", arguments: { cmd: "ls" } }),
+      "",
+      JSON.stringify({ name: "shell.exec", arguments: { cmd: "rm x" } }),
+      "not json",
+      JSON.stringify({ args: {} })
+    ].join("\n")
+  );
+
+  assert.equal(report.calls, 3);
+  assert.equal(report.prompts, 1);
+  assert.deepEqual(report.tools, [
+    {
+      toolName: "shell.exec",
+      calls: 2,
+      prompts: 1,
+      rules: ['tools[0] "shell.*" (conditions[0])', 'tools[0] "shell.*"']
+    },
+    { toolName: "fs.read_file", calls: 1, prompts: 0, rules: ['allowlist[0] "fs.read*"'] }
+  ]);
+  assert.deepEqual(report.issues.map((issue) => issue.line), [5, 6]);
+});
@@ -0,0 +1,250 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import { McpPolicyLoadError } from "../src/mcp/errors.js";
+import {
+  loadMcpApprovalPolicy,
+  parseMcpApprovalPolicyFile,
+  watchMcpApprovalPolicy
+} from "../src/mcp/policy-loader.js";
+
+test("parses JSON and YAML policy files", () => {
+  const fromJson = parseMcpApprovalPolicyFile(
+    JSON.stringify({ defaultRequireApproval: false, allowlist: ["github.*"] }),
+    "policy.json"
+  );
+  assert.deepEqual(fromJson, { defaultRequireApproval: false, allowlist: ["github.*"] });
+
+  const fromYaml = parseMcpApprovalPolicyFile(
+    ["tools:", "  - toolName: functions.bash", "    risk: high"].join("\n"),
+    "policy.yaml"
+  );
+  assert.deepEqual(fromYaml, { tools: [{ toolName: "functions.bash", risk: "high" }] });
+
+  const scoped = parseMcpApprovalPolicyFile(
+    ["tools:", "  - toolName: git.push", "    context:", "      gitBranch: main", "      agentName: ci-*"].join("\n"),
+    "policy.yaml"
+  );
+  assert.deepEqual(scoped, { tools: [{ toolName: "git.push", context: { gitBranch: "main", agentName: "ci-*" } }] });
+
+  const redacted = parseMcpApprovalPolicyFile(
+    JSON.stringify({
+      tools: [
+        {
+          toolName: "http.*",
+          argDisplay: {
+            rules: [
+              { kind: "redactKeyPattern", pattern: "(api|access)_?key", flags: "i", mode: "fingerprint" },
+              { kind: "redactPath", path: "$.env[*].value", mode: "drop" }
+            ]
+          }
+        }
+      ]
+    }),
+    "policy.json"
+  );
+  assert.equal(redacted.tools?.[0]?.argDisplay?.rules?.length, 2);
+  const badPath = { tools: [{ toolName: "http.*", argDisplay: { rules: [{ kind: "redactPath", path: "env" }] } }] };
+  assert.throws(() => parseMcpApprovalPolicyFile(JSON.stringify(badPath), "policy.json"), McpPolicyLoadError);
+});
+
+test("reports validation issues with their location", () => {
+  const text = ["allowlist:", "  - github.*", "tools:", "  - toolName: fs.write_*", "    risk: severe"].join("\n");
+
+  assert.throws(
+    () => parseMcpApprovalPolicyFile(text, "policy.yaml"),
+    (err: unknown) => {
+      assert.ok(err instanceof McpPolicyLoadError);
+      assert.equal(err.source, "policy.yaml");
+      assert.equal(err.issues.length, 1);
+      assert.equal(err.issues[0]?.path, "tools[0].risk");
+      assert.equal(err.issues[0]?.line, 5);
+      assert.equal(err.issues[0]?.column, 11);
+      assert.match(err.message, /tools\[0\]\.risk \(line 5, column 11\)/);
+      return true;
+    }
+  );
+});
+
+test("argsSchema patterns are compiled when the policy loads", () => {
+  const text = [
+    "tools:",
+    "  - toolName: fs.write_file",
+    "    argsSchema:",
+    "      properties:",
+    "        path:",
+    "          pattern: \"^(/tmp\""
+  ].join("\n");
+
+  assert.throws(
+    () => parseMcpApprovalPolicyFile(text, "policy.yaml"),
+    (err: unknown) => {
+      assert.ok(err instanceof McpPolicyLoadError);
+      assert.equal(err.issues[0]?.path, "tools[0].argsSchema.properties.path.pattern");
+      assert.equal(err.issues[0]?.line, 6);
+      return true;
+    }
+  );
+});
+
+test("reports syntax errors with their location", () => {
+  assert.throws(
+    () => parseMcpApprovalPolicyFile('{\n  "allowlist": [\n}', "policy.json"),
+    (err: unknown) => {
+      assert.ok(err instanceof McpPolicyLoadError);
+      assert.ok(err.issues[0]?.line !== undefined);
+      return true;
+    }
+  );
+});
+
+test("env vars override the file and append to its lists", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "handraise-policy-"));
+
+  try {
+    await mkdir(join(dir, ".handraise"));
+    await writeFile(
+      join(dir, ".handraise", "policy.json"),
+      JSON.stringify({ defaultRequireApproval: true, allowlist: ["github.*"], denylist: ["fs.delete_*"] })
+    );
+
+    const loaded = await loadMcpApprovalPolicy({
+      cwd: dir,
+      env: {
+        HANDRAISE_DEFAULT_REQUIRE_APPROVAL: "false",
+        HANDRAISE_ALLOWLIST: "functions.grep, github.*",
+        HANDRAISE_DENYLIST: ""
+      }
+    });
+
+    assert.equal(loaded.sourcePath, join(dir, ".handraise", "policy.json"));
+    assert.deepEqual(loaded.policy, {
+      defaultRequireApproval: false,
+      allowlist: ["github.*", "functions.grep"],
+      denylist: ["fs.delete_*"],
+      tools: []
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("a profile is selected by option, env var or the file, and applied before env vars", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "handraise-policy-"));
+
+  try {
+    await mkdir(join(dir, ".handraise"));
+    await writeFile(
+      join(dir, ".handraise", "policy.yaml"),
+      [
+        "defaultRequireApproval: true",
+        "allowlist: [github.*]",
+        "profile: dev",
+        "profiles:",
+        "  dev:",
+        "    defaultRequireApproval: false",
+        "  ci:",
+        "    extends: dev",
+        "    allowlist: ['!github.*']",
+        "    denylist: [fs.delete_*]"
+      ].join("\n")
+    );
+
+    const fromFile = await loadMcpApprovalPolicy({ cwd: dir, env: {} });
+    assert.equal(fromFile.profile, "dev");
+    assert.equal(fromFile.policy.defaultRequireApproval, false);
+
+    const fromEnv = await loadMcpApprovalPolicy({
+      cwd: dir,
+      env: { HANDRAISE_POLICY_PROFILE: "ci", HANDRAISE_ALLOWLIST: "functions.grep" }
+    });
+    assert.deepEqual(fromEnv.policy, {
+      defaultRequireApproval: false,
+      allowlist: ["functions.grep"],
+      denylist: ["fs.delete_*"],
+      tools: []
+    });
+
+    await assert.rejects(
+      loadMcpApprovalPolicy({ cwd: dir, env: { HANDRAISE_POLICY_PROFILE: "ci" }, profile: "prod" }),
+      (err: unknown) => {
+        assert.ok(err instanceof McpPolicyLoadError);
+        assert.equal(err.issues[0]?.path, "profile");
+        assert.match(err.message, /unknown profile \(known: dev, ci\)/);
+        return true;
+      }
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("invalid env values are rejected", async () => {
+  await assert.rejects(
+    loadMcpApprovalPolicy({ cwd: tmpdir(), env: { HANDRAISE_DEFAULT_REQUIRE_APPROVAL: "maybe" } }),
+    (err: unknown) => {
+      assert.ok(err instanceof McpPolicyLoadError);
+      assert.equal(err.issues[0]?.path, "HANDRAISE_DEFAULT_REQUIRE_APPROVAL");
+      return true;
+    }
+  );
+});
+
+test("watcher reloads edits and keeps the last good policy", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "handraise-policy-"));
+  const policyPath = join(dir, "policy.yaml");
+  const warnings: string[] = [];
+
+  await writeFile(policyPath, "defaultRequireApproval: true\n");
+  const watcher = await watchMcpApprovalPolicy({
+    env: { HANDRAISE_POLICY_PATH: policyPath },
+    debounceMs: 10,
+    logger: {
+      info: () => undefined,
+      warn: (event) => warnings.push(event)
+    }
+  });
+
+  try {
+    assert.equal(watcher.current().defaultRequireApproval, true);
+
+    await writeFile(policyPath, "defaultRequireApproval: false\n");
+    await waitFor(() => watcher.current().defaultRequireApproval === false);
+
+    await writeFile(policyPath, "defaultRequireApproval: nope\n");
+    await waitFor(() => warnings.includes("mcp_policy_reload_failed"));
+    assert.equal(watcher.current().defaultRequireApproval, false);
+  } finally {
+    watcher.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("watcher picks up a policy file created after startup", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "handraise-policy-"));
+  const watcher = await watchMcpApprovalPolicy({ cwd: dir, env: {}, debounceMs: 10 });
+
+  try {
+    assert.equal(watcher.sourcePath, undefined);
+    assert.equal(watcher.current().defaultRequireApproval, true);
+
+    await mkdir(join(dir, ".handraise"));
+    await writeFile(join(dir, ".handraise", "policy.yaml"), "defaultRequireApproval: false\n");
+    await waitFor(() => watcher.current().defaultRequireApproval === false);
+    assert.equal(watcher.sourcePath, join(dir, ".handraise", "policy.yaml"));
+  } finally {
+    watcher.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error("condition not met in time");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
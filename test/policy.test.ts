@@ -1,7 +1,9 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 
-import { matchPolicy } from "../src/mcp/policy.js";
+import { McpPolicyPatternError, McpPolicyProfileError } from "../src/mcp/errors.js";
+import { matchPolicy, type McpApprovalPolicy } from "../src/mcp/policy.js";
+import { resolvePolicyProfile } from "../src/mcp/policy-profiles.js";
 
 test("allowlist disables approval", () => {
   const m = matchPolicy(
@@ -11,7 +13,7 @@ test("allowlist disables approval", () => {
       denylist: [],
       tools: []
     },
-    "readFile"
+    { toolName: "readFile", args: {} }
   );
 
   assert.equal(m.requireApproval, false);
@@ -25,7 +27,7 @@ test("denylist forces approval", () => {
       denylist: ["deleteFile"],
       tools: []
     },
-    "deleteFile"
+    { toolName: "deleteFile", args: {} }
   );
 
   assert.equal(m.requireApproval, true);
@@ -38,9 +40,262 @@ test("per-tool rule overrides default", () => {
       defaultRequireApproval: false,
       tools: [{ toolName: "writeFile", requireApproval: true, risk: "high" }]
     },
-    "writeFile"
+    { toolName: "writeFile", args: {} }
   );
 
   assert.equal(m.requireApproval, true);
   assert.equal(m.risk, "high");
 });
+
+test("glob patterns match namespaced tools", () => {
+  const policy = {
+    defaultRequireApproval: true,
+    allowlist: ["github.*"],
+    tools: [{ toolName: "fs.write_*", risk: "high" as const }]
+  };
+
+  const read = matchPolicy(policy, { toolName: "github.list_issues", args: {} });
+  assert.equal(read.requireApproval, false);
+  assert.deepEqual(read.matchedRule, { source: "allowlist", index: 0, pattern: "github.*" });
+
+  const write = matchPolicy(policy, { toolName: "fs.write_file", args: {} });
+  assert.equal(write.requireApproval, true);
+  assert.equal(write.risk, "high");
+  assert.deepEqual(write.matchedRule, { source: "tools", index: 0, pattern: "fs.write_*" });
+});
+
+test("regex patterns match with flags", () => {
+  const m = matchPolicy(
+    {
+      defaultRequireApproval: false,
+      denylist: ["/^db\\.(drop|truncate)_/i"]
+    },
+    { toolName: "DB.Drop_table", args: {} }
+  );
+
+  assert.equal(m.requireApproval, true);
+  assert.equal(m.matchedRule.source, "denylist");
+});
+
+test("most specific pattern wins across lists", () => {
+  const policy = {
+    defaultRequireApproval: false,
+    allowlist: ["github.*"],
+    denylist: ["github.delete_*", "/^github\\./"],
+    tools: [{ toolName: "github.delete_repo", requireApproval: true, risk: "medium" as const }]
+  };
+
+  const exact = matchPolicy(policy, { toolName: "github.delete_repo", args: {} });
+  assert.equal(exact.risk, "medium");
+  assert.deepEqual(exact.matchedRule, { source: "tools", index: 0, pattern: "github.delete_repo" });
+
+  const longerGlob = matchPolicy(policy, { toolName: "github.delete_branch", args: {} });
+  assert.equal(longerGlob.risk, "high");
+  assert.deepEqual(longerGlob.matchedRule, { source: "denylist", index: 0, pattern: "github.delete_*" });
+
+  const globOverRegex = matchPolicy(policy, { toolName: "github.list_issues", args: {} });
+  assert.equal(globOverRegex.requireApproval, false);
+  assert.equal(globOverRegex.matchedRule.source, "allowlist");
+});
+
+test("unmatched tools report the default rule", () => {
+  const m = matchPolicy(
+    { defaultRequireApproval: true, allowlist: ["github.*"] },
+    { toolName: "fs.read_file", args: {} }
+  );
+
+  assert.equal(m.requireApproval, true);
+  assert.deepEqual(m.matchedRule, { source: "default" });
+});
+
+test("invalid regex patterns throw a typed error", () => {
+  assert.throws(
+    () =>
+      matchPolicy(
+        { defaultRequireApproval: true, allowlist: ["/([/"] },
+        { toolName: "x", args: {} }
+      ),
+    McpPolicyPatternError
+  );
+});
+
+test("argument conditions refine a tool rule", () => {
+  const policy: McpApprovalPolicy = {
+    defaultRequireApproval: true,
+    tools: [
+      {
+        toolName: "functions.bash",
+        requireApproval: true,
+        risk: "medium",
+        conditions: [
+          {
+            when: { kind: "matches", path: "$.command", pattern: "^(ls|pwd|git status)\\b" },
+            requireApproval: false,
+            risk: "low"
+          },
+          {
+            when: { kind: "matches", path: "$.command", pattern: "\\brm\\s+-rf\\b" },
+            risk: "high",
+            argDisplay: { maxStringLen: 20 }
+          }
+        ]
+      }
+    ]
+  };
+
+  const ls = matchPolicy(policy, { toolName: "functions.bash", args: { command: "ls -la" } });
+  assert.equal(ls.requireApproval, false);
+  assert.equal(ls.risk, "low");
+  assert.equal(ls.matchedRule.source === "tools" && ls.matchedRule.conditionIndex, 0);
+
+  const rm = matchPolicy(policy, { toolName: "functions.bash", args: { command: "rm -rf /tmp/x" } });
+  assert.equal(rm.requireApproval, true);
+  assert.equal(rm.risk, "high");
+  assert.equal(rm.argDisplay.maxStringLen, 20);
+
+  const other = matchPolicy(policy, { toolName: "functions.bash", args: { command: "make" } });
+  assert.equal(other.risk, "medium");
+  assert.deepEqual(other.matchedRule, { source: "tools", index: 0, pattern: "functions.bash" });
+});
+
+test("argument conditions support equality, comparisons and combinators", () => {
+  const policy: McpApprovalPolicy = {
+    defaultRequireApproval: false,
+    tools: [
+      {
+        toolName: "db.query",
+        conditions: [
+          {
+            when: {
+              kind: "all",
+              conditions: [
+                { kind: "equals", path: "$.options.readOnly", value: false },
+                {
+                  kind: "any",
+                  conditions: [
+                    { kind: "compare", path: "$.limit", op: "gt", value: 1000 },
+                    { kind: "not", condition: { kind: "equals", path: "$.tables[*]", value: "scratch" } }
+                  ]
+                }
+              ]
+            },
+            requireApproval: true,
+            risk: "high"
+          }
+        ]
+      }
+    ]
+  };
+
+  const readOnly = matchPolicy(policy, {
+    toolName: "db.query",
+    args: { options: { readOnly: true }, limit: 5000, tables: ["users"] }
+  });
+  assert.equal(readOnly.requireApproval, false);
+
+  const scratchWrite = matchPolicy(policy, {
+    toolName: "db.query",
+    args: { options: { readOnly: false }, limit: 10, tables: ["scratch"] }
+  });
+  assert.equal(scratchWrite.requireApproval, false);
+
+  const bigWrite = matchPolicy(policy, {
+    toolName: "db.query",
+    args: { options: { readOnly: false }, limit: 5000, tables: ["scratch"] }
+  });
+  assert.equal(bigWrite.requireApproval, true);
+  assert.equal(bigWrite.risk, "high");
+});
+
+test("profiles extend a base and merge lists, rules and redaction rules", () => {
+  const policy: McpApprovalPolicy = {
+    defaultRequireApproval: true,
+    allowlist: ["fs.read*", "git.status"],
+    tools: [
+      {
+        toolName: "shell.exec",
+        risk: "medium",
+        argDisplay: { maxStringLen: 100, rules: [{ kind: "redactKey", key: "secret" }] },
+        conditions: [{ when: { kind: "matches", path: "$.cmd", pattern: "^ls\\b" }, requireApproval: false }]
+      }
+    ],
+    profiles: {
+      dev: { defaultRequireApproval: false, allowlist: ["shell.*"] },
+      ci: {
+        extends: "dev",
+        allowlist: ["!shell.*"],
+        tools: [
+          {
+            toolName: "shell.exec",
+            risk: "high",
+            argDisplay: { rules: [{ kind: "redactKey", key: "secret", replacement: "***" }] },
+            conditions: [{ when: { kind: "matches", path: "$.cmd", pattern: "^ls -R" }, requireApproval: true }]
+          },
+          { toolName: "net.fetch", requireApproval: false }
+        ]
+      }
+    }
+  };
+
+  const dev = matchPolicy({ ...policy, profile: "dev" }, { toolName: "shell.exec", args: { cmd: "rm" } });
+  assert.equal(dev.requireApproval, false);
+
+  const ci = resolvePolicyProfile(policy, "ci");
+  assert.equal(ci.defaultRequireApproval, false);
+  assert.deepEqual(ci.allowlist, ["fs.read*", "git.status"]);
+  assert.deepEqual(ci.tools?.map((rule) => rule.toolName), ["shell.exec", "net.fetch"]);
+
+  const selected = { ...policy, profile: "ci" };
+  const rm = matchPolicy(selected, { toolName: "shell.exec", args: { cmd: "rm -rf x", secret: "s" } });
+  assert.equal(rm.risk, "high");
+  assert.equal(rm.requireApproval, false);
+  assert.equal(rm.argDisplay.maxStringLen, 100);
+  assert.deepEqual(rm.argDisplay.rules.slice(4), [{ kind: "redactKey", key: "secret", replacement: "***" }]);
+  assert.equal(rm.argDisplay.rules.length, 5);
+  // The profile's condition is checked before the inherited one.
+  assert.equal(matchPolicy(selected, { toolName: "shell.exec", args: { cmd: "ls -R /" } }).requireApproval, true);
+  assert.equal(matchPolicy(selected, { toolName: "shell.exec", args: { cmd: "ls" } }).requireApproval, false);
+
+  assert.throws(() => matchPolicy({ ...policy, profile: "prod" }, { toolName: "x", args: {} }), McpPolicyProfileError);
+  const cyclic: McpApprovalPolicy = {
+    defaultRequireApproval: true,
+    profiles: { a: { extends: "b" }, b: { extends: "a" } }
+  };
+  assert.throws(() => resolvePolicyProfile(cyclic, "a"), /extends cycle: a -> b -> a/);
+});
+
+test("replaceRules drops inherited redaction rules", () => {
+  const m = matchPolicy(
+    {
+      defaultRequireApproval: true,
+      tools: [{ toolName: "t", argDisplay: { replaceRules: true, rules: [{ kind: "redactKey", key: "pin" }] } }]
+    },
+    { toolName: "t", args: {} }
+  );
+  assert.deepEqual(m.argDisplay.rules, [{ kind: "redactKey", key: "pin" }]);
+});
+
+test("context-scoped rules apply only to matching callers and win ties", () => {
+  const policy: McpApprovalPolicy = {
+    defaultRequireApproval: true,
+    allowlist: ["git.push"],
+    tools: [
+      { toolName: "git.push", context: { gitBranch: "main" }, requireApproval: true, risk: "high" },
+      { toolName: "git.*", context: { agentName: "/^ci-/" }, requireApproval: false }
+    ]
+  };
+
+  const onMain = matchPolicy(policy, { toolName: "git.push", args: {}, context: { gitBranch: "main" } });
+  assert.equal(onMain.requireApproval, true);
+  assert.deepEqual(onMain.matchedRule, { source: "tools", index: 0, pattern: "git.push" });
+
+  const onFeature = matchPolicy(policy, { toolName: "git.push", args: {}, context: { gitBranch: "feature/x" } });
+  assert.equal(onFeature.matchedRule.source, "allowlist");
+
+  const noContext = matchPolicy(policy, { toolName: "git.push", args: {} });
+  assert.equal(noContext.matchedRule.source, "allowlist");
+
+  const ci = matchPolicy(policy, { toolName: "git.fetch", args: {}, context: { agentName: "ci-runner" } });
+  assert.equal(ci.requireApproval, false);
+  assert.equal(matchPolicy(policy, { toolName: "git.fetch", args: {} }).matchedRule.source, "default");
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createMcpHumanInLoopGate } from "../src/mcp/gate.js";
+import { createUnifiedDiff, formatApprovalPreview } from "../src/mcp/preview.js";
+import type { McpApprovalRequest } from "../src/mcp/types.js";
+
+const GITHUB_TOKEN = `ghp_${"a1B2c3D4e5".repeat(3)}abcdef`;
+
+test("createUnifiedDiff emits hunks with context", () => {
+  const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n");
+  const after = ["a", "b", "c", "D", "e", "f", "g", "h", "i", "j", "k"].join("\n");
+
+  assert.equal(
+    createUnifiedDiff(before, after, { path: "notes.txt", context: 1 }),
+    [
+      "--- a/notes.txt",
+      "+++ b/notes.txt",
+      "@@ -3,3 +3,3 @@",
+      " c",
+      "-d",
+      "+D",
+      " e",
+      "@@ -10,1 +10,2 @@",
+      " j",
+      "+k",
+      ""
+    ].join("\n")
+  );
+  assert.equal(createUnifiedDiff("same", "same"), "");
+});
+
+test("formatApprovalPreview renders each preview kind", () => {
+  assert.deepEqual(formatApprovalPreview({ kind: "rows", estimatedRows: 1, detail: "DELETE FROM users WHERE id = 1" }), [
+    "Affects about 1 row",
+    "DELETE FROM users WHERE id = 1"
+  ]);
+  assert.deepEqual(
+    formatApprovalPreview({ kind: "files", files: [{ path: "a.ts", change: "delete" }, { path: "b.ts" }] }),
+    ["delete a.ts", "touch b.ts"]
+  );
+});
+
+test("gate attaches previews and annotates failures without blocking", async () => {
+  const requests: McpApprovalRequest[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval(req) {
+        requests.push(req);
+        return { decision: "approve" };
+      }
+    },
+    previews: [
+      { toolName: "db.*", preview: () => ({ kind: "rows", estimatedRows: 42 }) },
+      {
+        toolName: "db.migrate",
+        preview: () => {
+          throw new Error("dry run not supported");
+        }
+      },
+      { toolName: "slow", preview: () => new Promise(() => {}) }
+    ],
+    previewTimeoutMs: 20,
+    nowMs: () => 0
+  });
+
+  await gate.executeWithApproval({ toolName: "db.query", args: {} }, async () => "ok");
+  await gate.executeWithApproval({ toolName: "db.migrate", args: {} }, async () => "ok");
+  await gate.executeWithApproval({ toolName: "slow", args: {} }, async () => "ok");
+  await gate.executeWithApproval({ toolName: "other", args: {} }, async () => "ok");
+
+  assert.deepEqual(requests[0]?.preview, { kind: "rows", estimatedRows: 42 });
+  assert.equal(requests[1]?.preview, undefined);
+  assert.equal(requests[1]?.previewError, "dry run not supported");
+  assert.equal(requests[2]?.previewError, "Preview timed out after 20ms.");
+  assert.equal("preview" in requests[3]! || "previewError" in requests[3]!, false);
+});
+
+test("previews are redacted like the args they describe", async () => {
+  const requests: McpApprovalRequest[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: {
+      async requestApproval(req) {
+        requests.push(req);
+        return { decision: "deny" };
+      }
+    },
+    previews: [
+      {
+        toolName: "fs.write_file",
+        preview: (call) => ({
+          kind: "diff",
+          diff: createUnifiedDiff("", `password=${(call.args as { password: string }).password}\nkey=${GITHUB_TOKEN}\n`)
+        })
+      }
+    ]
+  });
+
+  await assert.rejects(
+    gate.executeWithApproval({ toolName: "fs.write_file", args: { password: "hunter2" } }, async () => "ok")
+  );
+  const diff = requests[0]?.preview?.kind === "diff" ? requests[0].preview.diff : "";
+  assert.match(diff, /^\+password=\[REDACTED\]$/m);
+  assert.match(diff, /^\+key=\[REDACTED:githubToken\]$/m);
+  assert.doesNotMatch(diff, /hunter2|ghp_/);
+});
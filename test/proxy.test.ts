@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import { createMcpHumanInLoopGate } from "../src/mcp/gate.js";
+import { createHandraiseProxyServer, downstreamStdioEnv, type DownstreamConnection } from "../src/mcp/proxy.js";
+import { parseHandraiseProxyConfigFile } from "../src/mcp/proxy-config.js";
+import type { McpApprovalRequest } from "../src/mcp/types.js";
+
+async function connectInMemory(server: { connect: McpServer["connect"] }, name: string): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name, version: "0.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+async function createDownstream(calls: unknown[]): Promise<DownstreamConnection> {
+  const server = new McpServer({ name: "fs", version: "0.0.0" });
+  server.registerTool(
+    "read_file",
+    { description: "Read a file", inputSchema: { path: z.string() } },
+    async ({ path }) => ({ content: [{ type: "text", text: `read ${path}` }] })
+  );
+  server.registerTool(
+    "write_file",
+    { description: "Write a file", inputSchema: { path: z.string(), contents: z.string() } },
+    async (args) => {
+      calls.push(args);
+      return { content: [{ type: "text", text: `wrote ${args.path}` }] };
+    }
+  );
+
+  const client = await connectInMemory(server, "downstream-client");
+  return { name: "fs", client, close: () => client.close() };
+}
+
+test("proxy re-exports namespaced downstream tools with their schemas", async () => {
+  const downstream = await createDownstream([]);
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: false },
+    handraise: { requestApproval: async () => ({ decision: "approve" }) }
+  });
+  const upstream = await connectInMemory(
+    createHandraiseProxyServer({ downstreams: [downstream], gate }),
+    "agent"
+  );
+
+  try {
+    const { tools } = await upstream.listTools();
+    assert.deepEqual(tools.map((tool) => tool.name).sort(), ["fs.read_file", "fs.write_file"]);
+    const write = tools.find((tool) => tool.name === "fs.write_file");
+    assert.deepEqual(Object.keys(write?.inputSchema.properties ?? {}).sort(), ["contents", "path"]);
+
+    const result = await upstream.callTool({ name: "fs.read_file", arguments: { path: "a.txt" } });
+    assert.deepEqual(result.content, [{ type: "text", text: "read a.txt" }]);
+  } finally {
+    await upstream.close();
+    await downstream.close();
+  }
+});
+
+test("proxy gates calls and applies approver overrides", async () => {
+  const calls: unknown[] = [];
+  const requests: McpApprovalRequest[] = [];
+  const downstream = await createDownstream(calls);
+  let decision: "approve" | "deny" = "deny";
+
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: false, tools: [{ toolName: "fs.write_*", requireApproval: true }] },
+    handraise: {
+      async requestApproval(req) {
+        requests.push(req);
+        return decision === "approve"
+          ? { decision, overrideArgs: { path: "safe.txt", contents: "x" } }
+          : { decision, reason: "not today" };
+      }
+    }
+  });
+  const upstream = await connectInMemory(
+    createHandraiseProxyServer({ downstreams: [downstream], gate }),
+    "agent"
+  );
+
+  try {
+    const denied = await upstream.callTool({
+      name: "fs.write_file",
+      arguments: { path: "/etc/passwd", contents: "x" }
+    });
+    assert.equal(denied.isError, true);
+    assert.match(JSON.stringify(denied.content), /denied by the human approver: not today/);
+    assert.equal(calls.length, 0);
+
+    decision = "approve";
+    const approved = await upstream.callTool({
+      name: "fs.write_file",
+      arguments: { path: "/etc/passwd", contents: "x" }
+    });
+    assert.deepEqual(approved.content, [{ type: "text", text: "wrote safe.txt" }]);
+    assert.deepEqual(calls, [{ path: "safe.txt", contents: "x" }]);
+    assert.deepEqual(
+      requests.map((req) => req.toolName),
+      ["fs.write_file", "fs.write_file"]
+    );
+  } finally {
+    await upstream.close();
+    await downstream.close();
+  }
+});
+
+test("proxy returns approval timeouts as tool errors", async () => {
+  const downstream = await createDownstream([]);
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true },
+    handraise: { requestApproval: () => new Promise(() => {}) },
+    approvalTimeoutMs: 20
+  });
+  const upstream = await connectInMemory(
+    createHandraiseProxyServer({ downstreams: [downstream], gate }),
+    "agent"
+  );
+
+  try {
+    const result = await upstream.callTool({ name: "fs.read_file", arguments: { path: "a.txt" } });
+    assert.equal(result.isError, true);
+    assert.match(JSON.stringify(result.content), /approval timed out after 20ms: fs\.read_file/);
+  } finally {
+    await upstream.close();
+    await downstream.close();
+  }
+});
+
+test("stdio downstreams keep the default environment under their configured env", () => {
+  const env = downstreamStdioEnv({ API_URL: "https://example.com", HOME: "/srv/mcp" });
+  assert.equal(env.PATH, process.env.PATH);
+  assert.equal(env.API_URL, "https://example.com");
+  assert.equal(env.HOME, "/srv/mcp");
+  assert.equal(downstreamStdioEnv(undefined).PATH, process.env.PATH);
+});
+
+test("proxy config accepts stdio and http servers", () => {
+  const config = parseHandraiseProxyConfigFile(
+    [
+      "servers:",
+      "  github:",
+      "    command: [npx, -y, '@modelcontextprotocol/server-github']",
+      "  docs:",
+      "    url: https://example.com/mcp"
+    ].join("\n"),
+    "proxy.yaml"
+  );
+
+  assert.deepEqual(config, {
+    servers: {
+      github: { command: ["npx", "-y", "@modelcontextprotocol/server-github"] },
+      docs: { url: "https://example.com/mcp" }
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+import { createMcpHumanInLoopGate } from "../src/mcp/gate.js";
+import { createHandraiseMcpServer } from "../src/mcp/server.js";
+import type { McpApprovalDecision, McpApprovalRequest } from "../src/mcp/types.js";
+
+async function connectSelfGate(decide: (req: McpApprovalRequest) => McpApprovalDecision) {
+  const requests: McpApprovalRequest[] = [];
+  const gate = createMcpHumanInLoopGate({
+    policy: { defaultRequireApproval: true, allowlist: ["self.lint"] },
+    handraise: {
+      async requestApproval(req) {
+        requests.push(req);
+        return decide(req);
+      }
+    }
+  });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "agent", version: "1.0.0" });
+  await Promise.all([createHandraiseMcpServer({ gate }).connect(serverTransport), client.connect(clientTransport)]);
+  return { client, requests };
+}
+
+test("handraise_request_approval asks through the gate and returns edited args", async () => {
+  const { client, requests } = await connectSelfGate(() => ({
+    decision: "approve",
+    overrideArgs: { database: "staging" }
+  }));
+
+  try {
+    const result = await client.callTool({
+      name: "handraise_request_approval",
+      arguments: {
+        action: "Run the users table migration",
+        name: "db.migrate",
+        risk: "high",
+        args: { database: "prod", password: "hunter2" }
+      }
+    });
+
+    assert.deepEqual(result.structuredContent, { decision: "approve", editedArgs: { database: "staging" } });
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0]?.toolName, "self.db.migrate");
+    assert.equal(requests[0]?.summary, "Run the users table migration");
+    assert.equal(requests[0]?.risk, "high");
+    const shown = requests[0]?.displayArgs as { database: string; password: string };
+    assert.equal(shown.database, "prod");
+    assert.match(shown.password, /^\[REDACTED\]~[0-9a-f]{8}$/);
+    assert.equal(requests[0]?.context?.agentName, "agent");
+  } finally {
+    await client.close();
+  }
+});
+
+test("handraise_request_approval reports denials and always asks a human", async () => {
+  const { client, requests } = await connectSelfGate(() => ({ decision: "deny", reason: "not during business hours" }));
+
+  try {
+    const denied = await client.callTool({
+      name: "handraise_request_approval",
+      arguments: { action: "Restart the API", risk: "medium" }
+    });
+    assert.deepEqual(denied.structuredContent, { decision: "deny", reason: "not during business hours" });
+    assert.equal(requests[0]?.toolName, "self.action");
+
+    // An allowlisted `self.` name is still put to a human.
+    const asked = await client.callTool({
+      name: "handraise_request_approval",
+      arguments: { action: "Run the linter", name: "lint", risk: "low" }
+    });
+    assert.deepEqual(asked.structuredContent, { decision: "deny", reason: "not during business hours" });
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1]?.toolName, "self.lint");
+  } finally {
+    await client.close();
+  }
+});